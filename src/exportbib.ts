@@ -4,6 +4,9 @@ import type { BibliographyConfig, SourceData2 } from "./types/interfaces";
 import { FORMAT_EXTENSION_MAPPING } from "./types/interfaces";
 import { initializeCiteJS } from "./setup";
 import { BibliographySettings } from "./types/settings";
+import { parseDate } from "./utils/dates";
+import { formatIsbn } from "./utils/identifiers";
+import { NAME_ROLES, parseNameList } from "./utils/names";
 
 export class BibliographyExporter {
 	constructor(private app: App, private settings: BibliographySettings) {}
@@ -189,7 +192,10 @@ export class BibliographyExporter {
 				citekey: yaml.citekey,
 				title: yaml.title || file.basename,
 				author: yaml.author || [],
+				contributors: this.extractContributors(yaml),
 				year: yaml.year || new Date().getFullYear(),
+				date: yaml.date,
+				accessed: yaml.accessed,
 				type: yaml.type || "misc",
 				journal: yaml.journal,
 				publisher: yaml.publisher,
@@ -197,7 +203,9 @@ export class BibliographyExporter {
 				volume: yaml.volume,
 				issue: yaml.issue,
 				doi: yaml.doi,
-				isbn: yaml.isbn,
+				isbn: yaml.isbn
+					? formatIsbn(String(yaml.isbn), this.settings.hyphenateIsbn)
+					: undefined,
 				url: yaml.url,
 				abstract: yaml.abstract,
 				keywords: yaml.keywords,
@@ -323,32 +331,43 @@ export class BibliographyExporter {
 		};
 	}
 
+	private extractContributors(
+		yaml: Record<string, unknown>
+	): Record<string, string[]> {
+		const contributors: Record<string, string[]> = {};
+		NAME_ROLES.forEach((role) => {
+			const names = yaml[role];
+			if (role !== "author" && names) {
+				contributors[role] = (
+					Array.isArray(names) ? names : [names]
+				) as string[];
+			}
+		});
+		return contributors;
+	}
+
 	private sourceToCsl(source: SourceData2): any {
 		const csl: any = {
 			id: source.citekey,
 			title: source.title,
 			type: this.mapTypstTypeToCsl(source.type),
-			issued: { "date-parts": [[source.year]] },
+			issued: parseDate(source.date) || parseDate(source.year),
 		};
 
+		const accessed = parseDate(source.accessed);
+		if (accessed) csl.accessed = accessed;
+
 		// Handle authors
 		if (source.author && source.author.length > 0) {
-			csl.author = source.author.map((authorName) => {
-				const parts = authorName.split(",").map((p) => p.trim());
-				if (parts.length === 2) {
-					// "Smith, John" format
-					return { family: parts[0], given: parts[1] };
-				} else {
-					// "John Smith" format
-					const words = parts[0].split(" ");
-					return {
-						family: words[words.length - 1],
-						given: words.slice(0, -1).join(" "),
-					};
-				}
-			});
+			csl.author = parseNameList(source.author);
 		}
 
+		// Editors, translators and other contributor roles
+		Object.entries(source.contributors || {}).forEach(([role, names]) => {
+			const parsed = parseNameList(names);
+			if (parsed.length > 0) csl[role] = parsed;
+		});
+
 		// Add other fields based on type
 		if (source.journal) csl["container-title"] = source.journal;
 		if (source.publisher) csl.publisher = source.publisher;
@@ -11,6 +11,11 @@ import { BibliographySettingTab } from "./ui/settingsTab";
 import { BibliographyAPI, createAPI } from "./utils/api";
 import { initializeSourcesFolder } from "./utils/sources";
 import { registerCommands } from "./setup";
+import { registerAutoGenerate } from "./utils/autoGenerate";
+import { registerAttachmentSync } from "./utils/attachmentFiles";
+import { registerBibliographyBlock } from "./ui/bibliographyBlock";
+import { CitekeySuggest } from "./ui/citekeySuggest";
+import { VALIDATION_VIEW_TYPE, ValidationView } from "./ui/validationView";
 
 export default class BibliographyManagerPlugin extends Plugin {
 	settings: BibliographySettings;
@@ -42,6 +47,24 @@ export default class BibliographyManagerPlugin extends Plugin {
 			// Register commands
 			registerCommands(this);
 
+			// Regenerate the bibliography file when sources change (if enabled)
+			registerAutoGenerate(this);
+
+			// Rename and move attachments together with their source notes (if enabled)
+			registerAttachmentSync(this);
+
+			// Render ```bibliography code blocks as formatted reference lists
+			registerBibliographyBlock(this);
+
+			// Report of sources with missing fields or invalid identifiers
+			this.registerView(
+				VALIDATION_VIEW_TYPE,
+				(leaf) => new ValidationView(leaf, this)
+			);
+
+			// Suggest citekeys while typing @ in the editor
+			this.registerEditorSuggest(new CitekeySuggest(this));
+
 			// Add settings tab
 			this.addSettingTab(new BibliographySettingTab(this.app, this));
 
@@ -1,8 +1,25 @@
 import { App, Editor, MarkdownView, Notice } from "obsidian";
 import { SourceImportModal } from "./ui/importModal";
-import { FORMAT_EXTENSION_MAPPING } from "./types/interfaces";
+import { BulkImportModal } from "./ui/bulkImportModal";
+import { BatchImportModal } from "./ui/batchImportModal";
+import { NoteIdentifiersModal } from "./ui/noteIdentifiersModal";
+import {
+	AttachmentImportModal,
+	AttachmentSuggestModal,
+	isSupportedAttachment,
+} from "./ui/attachmentImportModal";
+import { CitationSuggestModal } from "./ui/citationSuggestModal";
+import { DuplicateSourcesModal } from "./ui/duplicatesModal";
+import { RenameCitekeyModal } from "./ui/renameCitekeyModal";
+import {
+	RefreshAllSourcesModal,
+	RefreshSourceModal,
+} from "./ui/refreshSourceModal";
+import { SourceService } from "./sourceService";
+import { getBibliographyOutputPath } from "./utils/sources";
 import BibliographyManagerPlugin from "./main";
 import { BibliographyExportModal } from "./ui/exportModal";
+import { activateValidationView } from "./ui/validationView";
 import { GenerateCitekeyCommand } from "./utils/citekey";
 import { BibliographySettings } from "./types/settings";
 
@@ -18,6 +35,12 @@ export function registerCommands(plugin: BibliographyManagerPlugin) {
 	});
 
 	// Additional plugin-specific commands
+	plugin.addCommand({
+		id: "validate-library",
+		name: "Validate library",
+		callback: () => activateValidationView(plugin),
+	});
+
 	plugin.addCommand({
 		id: "show-sources-folder",
 		name: "Show sources folder",
@@ -41,14 +64,7 @@ export function registerCommands(plugin: BibliographyManagerPlugin) {
 		callback: async () => {
 			try {
 				// Generate full filename with extension based on format
-				const extension =
-					FORMAT_EXTENSION_MAPPING[
-						plugin.settings.bibliographyFormat
-					] || ".bib";
-				const outputFolder =
-					plugin.settings.bibliographyOutputFolder ||
-					plugin.settings.sourcesFolder;
-				const bibPath = `${outputFolder}/${plugin.settings.bibliographyFilename}${extension}`;
+				const bibPath = getBibliographyOutputPath(plugin.settings);
 
 				// Generate bibliography using API
 				const bibContent = await plugin.api.exportBibliography();
@@ -111,10 +127,115 @@ export function getBibliographyCommands(
 			id: "generate-citekey",
 			name: "Generate citekey for current source",
 			editorCallback: (editor: Editor, view: MarkdownView) => {
-				const command = new GenerateCitekeyCommand(app);
+				const command = new GenerateCitekeyCommand(app, settings);
 				command.execute(editor, view);
 			},
 		},
+		{
+			id: "rename-citekey",
+			name: "Rename citekey of current source",
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				const file = view.file;
+				const citekey = file
+					? app.metadataCache.getFileCache(file)?.frontmatter?.citekey
+					: null;
+				if (!file || !citekey) {
+					new Notice("The current note has no citekey");
+					return;
+				}
+				new RenameCitekeyModal(
+					app,
+					settings,
+					file,
+					String(citekey)
+				).open();
+			},
+		},
+		{
+			id: "refresh-source-metadata",
+			name: "Refresh source metadata",
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				const file = view.file;
+				const frontmatter = file
+					? app.metadataCache.getFileCache(file)?.frontmatter
+					: null;
+				if (!file || !frontmatter) {
+					new Notice("The current note has no frontmatter");
+					return;
+				}
+				new RefreshSourceModal(app, file).open();
+			},
+		},
+		{
+			id: "refresh-all-sources",
+			name: "Refresh metadata of all sources",
+			callback: () => {
+				new RefreshAllSourcesModal(app, settings).open();
+			},
+		},
+		{
+			id: "insert-citation",
+			name: "Insert citation",
+			editorCallback: async (editor: Editor) => {
+				const sourceService =
+					plugin?.sourceService || new SourceService(app, settings);
+				const entries = await sourceService.getSourceEntries(
+					settings.sourcesFolder
+				);
+				if (entries.length === 0) {
+					new Notice(
+						`No sources with a citekey found in '${settings.sourcesFolder}'`
+					);
+					return;
+				}
+				new CitationSuggestModal(
+					app,
+					editor,
+					entries,
+					settings.citationFormat
+				).open();
+			},
+		},
+		{
+			id: "find-duplicate-sources",
+			name: "Find duplicate sources",
+			callback: () => {
+				new DuplicateSourcesModal(app, settings).open();
+			},
+		},
+		{
+			id: "normalize-isbns",
+			name: "Normalize ISBNs",
+			callback: async () => {
+				try {
+					const sourceService =
+						plugin?.sourceService ||
+						new SourceService(app, settings);
+					const { updated, invalid } =
+						await sourceService.normalizeIsbns(
+							settings.sourcesFolder,
+							settings.hyphenateIsbn
+						);
+					new Notice(
+						`Normalized ISBNs in ${updated} sources${
+							invalid.length > 0
+								? `, ${invalid.length} invalid: ${invalid
+										.map((file) => file.basename)
+										.join(", ")}`
+								: ""
+						}`
+					);
+				} catch (error) {
+					new Notice(
+						`Failed to normalize ISBNs: ${
+							error instanceof Error
+								? error.message
+								: "Unknown error"
+						}`
+					);
+				}
+			},
+		},
 		{
 			id: "export-bibliography-manual",
 			name: "Export bibliography manually",
@@ -129,5 +250,61 @@ export function getBibliographyCommands(
 				new SourceImportModal(app, settings, plugin).open();
 			},
 		},
+		{
+			id: "bulk-import-sources",
+			name: "Bulk import sources from bibliography file",
+			callback: () => {
+				new BulkImportModal(app, settings, plugin).open();
+			},
+		},
+		{
+			id: "batch-import-identifiers",
+			name: "Import sources from DOI/ISBN list",
+			callback: () => {
+				// Start from the selected text, e.g. a pasted reference list
+				const editor =
+					app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+				new BatchImportModal(
+					app,
+					settings,
+					plugin,
+					editor?.getSelection() || ""
+				).open();
+			},
+		},
+		{
+			id: "import-from-attachment",
+			name: "Import source from attachment",
+			callback: () => {
+				// Use the open PDF or EPUB, otherwise ask for one
+				const file = app.workspace.getActiveFile();
+				if (isSupportedAttachment(file, settings)) {
+					new AttachmentImportModal(
+						app,
+						settings,
+						plugin,
+						file
+					).open();
+				} else {
+					new AttachmentSuggestModal(app, settings, plugin).open();
+				}
+			},
+		},
+		{
+			id: "scan-note-for-dois",
+			name: "Find DOIs in current note",
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				if (!view.file) {
+					new Notice("No active note");
+					return;
+				}
+				new NoteIdentifiersModal(
+					app,
+					settings,
+					plugin,
+					view.file
+				).open();
+			},
+		},
 	];
 }
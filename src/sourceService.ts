@@ -4,15 +4,39 @@ import {
 	Notice,
 	normalizePath,
 	TFolder,
+	parseLinktext,
 	parseYaml,
 	stringifyYaml,
 } from "obsidian";
-import { SourceData } from "./types/interfaces";
+import { SourceData, SourceIndexEntry } from "./types/interfaces";
 import {
 	BIB_FIELDS,
+	BibliographyFormat,
 	BibliographySettings,
 	DEFAULT_SETTINGS,
 } from "./types/settings";
+import { formatCslBibliography, loadCslResources } from "./utils/csl";
+import { rewriteCitekey } from "./utils/citations";
+import { getBibliographyOutputPath } from "./utils/sources";
+import {
+	computedTemplateVariables,
+	renderTemplate,
+} from "./utils/templateEngine";
+import { normalizeDateFields, parseDate } from "./utils/dates";
+import {
+	formatIsbn,
+	identifierKey,
+	normalizeDoi,
+	normalizedIsbnFields,
+} from "./utils/identifiers";
+import {
+	NAME_ROLES,
+	PersonName,
+	displayName,
+	formatName,
+	nameTemplateVariables,
+	parseNameList,
+} from "./utils/names";
 // import { CitekeyGenerator } from "./exportbib";
 
 // @ts-ignore - citation-js doesn't have official TypeScript types
@@ -32,6 +56,12 @@ console.log(plugins.config.list());
 console.log(plugins.config.get("@bibtex"));
 plugins.config.get("@bibtex").format.useIdAsLabel = true;
 
+// BibLaTeX fields for contributor roles missing from citation-js BibTeX output
+const BIBTEX_NAME_FIELDS: Record<string, string> = {
+	translator: "translator",
+	"container-author": "bookauthor",
+};
+
 // console.warn("GAAAAAAAAAAAA");
 // console.log(new Cite());
 
@@ -218,7 +248,7 @@ export class SourceService {
 	): string {
 		// If template is provided, use regex rendering (simplified)
 		if (template) {
-			return this.renderTemplate(template, sourceData);
+			return this.renderSourceTemplate(template, sourceData);
 		}
 		console.warn("No template loaded! Fallback template used:");
 		// Fallback to original behavior
@@ -249,11 +279,12 @@ export class SourceService {
 	}
 
 	/**
-	 * Render template using shared utility from exportbib.ts
+	 * Render a source note template with the fields of a source
 	 */
-	private renderTemplate(template: string, sourceData: SourceData): string {
-		// Import the template rendering function dynamically to avoid circular dependencies
-		// This is a temporary workaround - in a full refactor, this would be in a shared utilities module
+	private renderSourceTemplate(
+		template: string,
+		sourceData: SourceData
+	): string {
 		const templateData: Record<string, any> = {};
 
 		// Direct field mapping - template variables match source data fields
@@ -286,23 +317,281 @@ export class SourceService {
 		});
 
 		// Add helper fields
-		templateData.authorList = Array.isArray(sourceData.author)
-			? sourceData.author.join(", ")
-			: sourceData.author || "";
+		// Name lists for author, editor, translator and other roles
+		Object.assign(templateData, nameTemplateVariables(sourceData));
+		// Built-in variables like firstAuthorLastName, unless the source has its own
+		const computed = computedTemplateVariables(sourceData);
+		Object.keys(computed).forEach((key) => {
+			if (templateData[key] === undefined || templateData[key] === "") {
+				templateData[key] = computed[key];
+			}
+		});
 		// Add atcitekey for aliases (citekey with @ prefix)
 		if (sourceData.citekey) {
 			templateData.atcitekey = `@${sourceData.citekey}`;
 		}
 
-		// Simple regex replacement for template variables
-		let result = template;
-		result = result.replace(/\{\{([^}]+)\}\}/g, (match, fieldPath) => {
-			const trimmedPath = fieldPath.trim();
-			const value = templateData[trimmedPath];
-			return value !== undefined && value !== null ? String(value) : "";
+		return renderTemplate(template, templateData);
+	}
+
+	/**
+	 * Merge one source note into another: apply the chosen frontmatter, append the
+	 * removed note's body, cite the kept citekey instead of the removed one, point
+	 * its backlinks at the kept note and move it to trash
+	 * @param keep - Note that remains after the merge
+	 * @param remove - Note that is merged into `keep` and deleted
+	 * @param frontmatter - Frontmatter fields chosen for the merged note; the citekey of `keep` is kept
+	 * @returns Number of files whose links were updated and of citations that were rewritten
+	 */
+	async mergeSourceNotes(
+		keep: TFile,
+		remove: TFile,
+		frontmatter: Record<string, unknown>
+	): Promise<{ updatedFiles: number; rewrittenCitations: number }> {
+		const removedContent = await this.app.vault.read(remove);
+		const removedBody = removedContent
+			.replace(/^---\n[\s\S]*?\n---/, "")
+			.trim();
+		const removedCitekey =
+			this.app.metadataCache.getFileCache(remove)?.frontmatter?.citekey;
+
+		await this.app.vault.process(keep, (data) => {
+			const body = data.replace(/^---\n[\s\S]*?\n---/, "").trim();
+			if (!removedBody || body.includes(removedBody)) {
+				return data;
+			}
+			return `${data.trimEnd()}\n\n## Merged from ${remove.basename}\n\n${removedBody}\n`;
 		});
 
-		return result;
+		const chosen = { ...frontmatter };
+		delete chosen.citekey;
+		normalizeDateFields(chosen);
+		let keptCitekey: unknown;
+		await this.app.fileManager.processFrontMatter(keep, (fm) => {
+			Object.assign(fm, chosen);
+			// A kept note without a citekey takes over the removed one
+			if (!fm.citekey && removedCitekey) {
+				fm.citekey = removedCitekey;
+			}
+			keptCitekey = fm.citekey;
+
+			// Keep the removed citekey resolvable as an alias
+			if (removedCitekey && String(removedCitekey) !== String(fm.citekey)) {
+				const aliases = Array.isArray(fm.aliases)
+					? fm.aliases
+					: fm.aliases
+					? [fm.aliases]
+					: [];
+				if (!aliases.includes(`@${removedCitekey}`)) {
+					aliases.push(`@${removedCitekey}`);
+				}
+				fm.aliases = aliases;
+			}
+		});
+
+		// Rewrite citations before links, so [[@removed]] stays a citation
+		let rewrittenCitations = 0;
+		if (
+			removedCitekey &&
+			keptCitekey &&
+			String(removedCitekey) !== String(keptCitekey)
+		) {
+			const references = (
+				await this.findCitekeyReferences(String(removedCitekey))
+			).filter(
+				({ file }) => file.path !== keep.path && file.path !== remove.path
+			);
+			rewrittenCitations = await this.rewriteCitations(
+				references.map(({ file }) => file),
+				String(removedCitekey),
+				String(keptCitekey)
+			);
+		}
+
+		const updatedFiles = await this.redirectBacklinks(remove, keep);
+		await this.app.fileManager.trashFile(remove);
+
+		return { updatedFiles, rewrittenCitations };
+	}
+
+	/**
+	 * Find all notes in the vault that cite a citekey
+	 * @returns Affected files with the number of citations in each
+	 */
+	async findCitekeyReferences(
+		citekey: string
+	): Promise<{ file: TFile; count: number }[]> {
+		const references: { file: TFile; count: number }[] = [];
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const content = await this.app.vault.cachedRead(file);
+			if (!content.includes(citekey)) continue;
+
+			const { count } = rewriteCitekey(content, citekey, citekey);
+			if (count > 0) {
+				references.push({ file, count });
+			}
+		}
+
+		return references;
+	}
+
+	/**
+	 * Change a source's citekey and @alias, then rewrite its citations in the given files
+	 * @returns Number of citations that were rewritten
+	 */
+	async renameCitekey(
+		sourceFile: TFile,
+		oldKey: string,
+		newKey: string,
+		files: TFile[]
+	): Promise<number> {
+		await this.app.fileManager.processFrontMatter(sourceFile, (fm) => {
+			fm.citekey = newKey;
+
+			const aliases: string[] = Array.isArray(fm.aliases)
+				? fm.aliases
+				: fm.aliases
+				? [fm.aliases]
+				: [];
+			const renamed = aliases.map((alias) =>
+				alias === `@${oldKey}` ? `@${newKey}` : alias
+			);
+			if (!renamed.includes(`@${newKey}`)) {
+				renamed.push(`@${newKey}`);
+			}
+			fm.aliases = renamed;
+		});
+
+		return this.rewriteCitations(files, oldKey, newKey);
+	}
+
+	/**
+	 * Replace citations of one citekey with another in the given files
+	 * @returns Number of citations that were rewritten
+	 */
+	private async rewriteCitations(
+		files: TFile[],
+		oldKey: string,
+		newKey: string
+	): Promise<number> {
+		let rewritten = 0;
+		for (const file of files) {
+			await this.app.vault.process(file, (data) => {
+				const result = rewriteCitekey(data, oldKey, newKey);
+				rewritten += result.count;
+				return result.text;
+			});
+		}
+
+		return rewritten;
+	}
+
+	/**
+	 * Rewrite the isbn and isbn10 fields of all source notes in canonical form
+	 * @returns Number of notes changed and notes whose ISBN is not valid
+	 */
+	async normalizeIsbns(
+		sourcesFolder: string,
+		hyphenate: boolean
+	): Promise<{ updated: number; invalid: TFile[] }> {
+		const sourceFiles = await this.findAllSourceFiles(sourcesFolder);
+		const invalid: TFile[] = [];
+		let updated = 0;
+
+		for (const file of sourceFiles) {
+			const frontmatter =
+				this.app.metadataCache.getFileCache(file)?.frontmatter;
+			if (!frontmatter?.isbn) continue;
+
+			const fields = normalizedIsbnFields(frontmatter, hyphenate);
+			if (!fields) {
+				invalid.push(file);
+				continue;
+			}
+			if (
+				String(frontmatter.isbn) === fields.isbn &&
+				(frontmatter.isbn10
+					? String(frontmatter.isbn10)
+					: undefined) === fields.isbn10
+			) {
+				continue;
+			}
+
+			await this.app.fileManager.processFrontMatter(file, (fm) => {
+				fm.isbn = fields.isbn;
+				if (fields.isbn10) {
+					fm.isbn10 = fields.isbn10;
+				} else {
+					delete fm.isbn10;
+				}
+			});
+			updated++;
+		}
+
+		return { updated, invalid };
+	}
+
+	/**
+	 * Rewrite all links to one file so they point at another file
+	 * @returns Number of files whose links were updated
+	 */
+	async redirectBacklinks(from: TFile, to: TFile): Promise<number> {
+		const { metadataCache, vault, fileManager } = this.app;
+		let updatedFiles = 0;
+
+		for (const [sourcePath, links] of Object.entries(
+			metadataCache.resolvedLinks
+		)) {
+			if (!links[from.path] || sourcePath === from.path) continue;
+
+			const sourceFile = vault.getAbstractFileByPath(sourcePath);
+			if (!(sourceFile instanceof TFile)) continue;
+
+			const cache = metadataCache.getFileCache(sourceFile);
+			const references = [
+				...(cache?.links || []),
+				...(cache?.embeds || []),
+				...(cache?.frontmatterLinks || []),
+			];
+
+			const replacements = new Map<string, string>();
+			for (const reference of references) {
+				const { path, subpath } = parseLinktext(reference.link);
+				if (metadataCache.getFirstLinkpathDest(path, sourcePath) !== from) {
+					continue;
+				}
+
+				const alias =
+					reference.displayText &&
+					reference.displayText !== reference.link
+						? reference.displayText
+						: undefined;
+				let newLink = fileManager.generateMarkdownLink(
+					to,
+					sourcePath,
+					subpath,
+					alias
+				);
+				if (reference.original.startsWith("!") && !newLink.startsWith("!")) {
+					newLink = `!${newLink}`;
+				}
+				replacements.set(reference.original, newLink);
+			}
+
+			if (replacements.size === 0) continue;
+
+			await vault.process(sourceFile, (data) => {
+				let result = data;
+				replacements.forEach((newLink, original) => {
+					result = result.split(original).join(newLink);
+				});
+				return result;
+			});
+			updatedFiles++;
+		}
+
+		return updatedFiles;
 	}
 
 	/**
@@ -329,6 +618,91 @@ export class SourceService {
 		return sourceFiles;
 	}
 
+	/**
+	 * Build a lookup of citekey -> source file for all sources in the folder
+	 */
+	async getCitekeyIndex(sourcesFolder: string): Promise<Map<string, TFile>> {
+		const index = new Map<string, TFile>();
+		const sourceFiles = await this.findAllSourceFiles(sourcesFolder);
+
+		for (const file of sourceFiles) {
+			const citekey =
+				this.app.metadataCache.getFileCache(file)?.frontmatter?.citekey;
+			if (citekey && !index.has(String(citekey))) {
+				index.set(String(citekey), file);
+			}
+		}
+
+		return index;
+	}
+
+	/**
+	 * Build a lookup of identifier key ("doi:...", "isbn:...") -> source file
+	 * Notes with an arXiv ID are also found under its arXiv DOI
+	 */
+	async getIdentifierIndex(
+		sourcesFolder: string
+	): Promise<Map<string, TFile>> {
+		const index = new Map<string, TFile>();
+		const sourceFiles = await this.findAllSourceFiles(sourcesFolder);
+
+		for (const file of sourceFiles) {
+			const frontmatter =
+				this.app.metadataCache.getFileCache(file)?.frontmatter;
+			if (!frontmatter) continue;
+
+			const identifiers = [
+				frontmatter.doi && {
+					type: "doi" as const,
+					value: String(frontmatter.doi),
+				},
+				frontmatter.isbn && {
+					type: "isbn" as const,
+					value: String(frontmatter.isbn),
+				},
+				frontmatter.arxiv && {
+					type: "arxiv" as const,
+					value: String(frontmatter.arxiv),
+				},
+			];
+			identifiers.forEach((identifier) => {
+				if (!identifier) return;
+				const key = identifierKey(identifier);
+				if (!index.has(key)) index.set(key, file);
+			});
+		}
+
+		return index;
+	}
+
+	/**
+	 * Build searchable entries (citekey, title, authors, year, keywords) for all sources
+	 */
+	async getSourceEntries(sourcesFolder: string): Promise<SourceIndexEntry[]> {
+		const sourceFiles = await this.findAllSourceFiles(sourcesFolder);
+		const toList = (value: unknown): string[] =>
+			Array.isArray(value)
+				? value.map((item) => String(item))
+				: value
+				? [String(value)]
+				: [];
+
+		return sourceFiles.map((file) => {
+			const frontmatter =
+				this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+			return {
+				file,
+				citekey: String(frontmatter.citekey),
+				title: frontmatter.title ? String(frontmatter.title) : file.basename,
+				authors: parseNameList(frontmatter.author).map((name) =>
+					displayName(name)
+				),
+				year: frontmatter.year ? String(frontmatter.year) : "",
+				keywords: toList(frontmatter.keywords),
+			};
+		});
+	}
+
 	/**
 	 * Recursively search for source files
 	 */
@@ -336,8 +710,14 @@ export class SourceService {
 		folder: TFolder,
 		sourceFiles: TFile[]
 	): Promise<void> {
+		// A formatted (csl) bibliography is a markdown file that may sit in the sources folder
+		const bibliographyPath = normalizePath(
+			getBibliographyOutputPath(this.settings)
+		);
 		for (const child of folder.children) {
-			if (child instanceof TFile && child.extension === "md") {
+			if (child instanceof TFile && child.path === bibliographyPath) {
+				continue;
+			} else if (child instanceof TFile && child.extension === "md") {
 				const cache = this.app.metadataCache.getFileCache(child);
 				const hasCitekey = cache?.frontmatter?.citekey;
 				if (hasCitekey) {
@@ -354,13 +734,18 @@ export class SourceService {
 	/**
 	 * Generate bibliography in specified format from all source files
 	 * @param sourcesFolder - Folder containing source files
-	 * @param format - Output format: 'bibtex', 'csl-json', or 'hayagriva'
+	 * @param format - Output format: 'bibtex', 'csl-json', 'hayagriva' or 'csl' (formatted reference list)
+	 * @param citekeys - Only include sources with these citekeys (optional, defaults to all sources)
+	 * @param cslStyle - CSL style for the 'csl' format (optional, defaults to plugin setting)
 	 */
 	async generateBibliography(
 		sourcesFolder: string,
-		format: "bibtex" | "csl-json" | "hayagriva"
+		format: BibliographyFormat,
+		citekeys?: string[],
+		cslStyle?: string
 	): Promise<string> {
 		const sourceFiles = await this.findAllSourceFiles(sourcesFolder);
+		const includedCitekeys = citekeys ? new Set(citekeys) : null;
 		let citeData: any[] = [];
 		const seenCitekeys = new Map<string, { file: TFile; count: number }>();
 		let duplicatesFound = 0;
@@ -376,6 +761,10 @@ export class SourceService {
 					continue;
 				}
 
+				if (includedCitekeys && !includedCitekeys.has(String(citekey))) {
+					continue;
+				}
+
 				// Check for duplicates
 				if (seenCitekeys.has(citekey)) {
 					duplicatesFound++;
@@ -441,10 +830,13 @@ export class SourceService {
 
 			switch (format) {
 				case "bibtex":
-					return cite.format("bibtex", {
-						format: "text",
-						lang: "en-US",
-					});
+					return this.addBibtexContributors(
+						cite.format("bibtex", {
+							format: "text",
+							lang: "en-US",
+						}),
+						citeData
+					);
 				case "hayagriva":
 					let yamlOutput = cite.format("hayagriva");
 
@@ -481,6 +873,17 @@ export class SourceService {
 				case "csl-json":
 					// return cite.format("data", { format: "object" });
 					return JSON.stringify(citeData, null, 2);
+				case "csl":
+					// Styles and locales are loaded from the vault so they work offline
+					await loadCslResources(
+						this.app,
+						this.settings.cslStylesFolder
+					);
+					return formatCslBibliography(
+						cite,
+						cslStyle || this.settings.cslStyle,
+						this.settings.cslLocale
+					);
 				default:
 					throw new Error(`Unsupported format: ${format}`);
 			}
@@ -538,10 +941,47 @@ export class SourceService {
 		return `[${formattedItems.join(", ")}]`;
 	}
 
+	/**
+	 * citation-js only writes author and editor to BibTeX, so add the
+	 * contributor roles that BibLaTeX understands to each entry
+	 */
+	private addBibtexContributors(
+		bibtex: string,
+		citeData: Record<string, unknown>[]
+	): string {
+		let result = bibtex;
+
+		for (const entry of citeData) {
+			const lines = Object.entries(BIBTEX_NAME_FIELDS).flatMap(
+				([role, field]) => {
+					const names = entry[role];
+					if (!Array.isArray(names) || names.length === 0) return [];
+					return `\t${field} = {${names
+						.map((name: PersonName) => formatName(name))
+						.join(" and ")}},\n`;
+				}
+			);
+			if (lines.length === 0) continue;
+
+			// Insert right after the entry's "@type{citekey," line
+			const header = `{${entry.id},\n`;
+			const index = result.indexOf(header);
+			if (index === -1) continue;
+
+			const insertAt = index + header.length;
+			result =
+				result.substring(0, insertAt) +
+				lines.join("") +
+				result.substring(insertAt);
+		}
+
+		return result;
+	}
+
 	/**
 	 * Convert frontmatter data to citation-js format using field mappings
 	 */
-	private convertFrontmatterToCitationJS(frontmatter: any): any | null {
+	convertFrontmatterToCitationJS(frontmatter: any): any | null {
 		if (!frontmatter.citekey) {
 			return null;
 		}
@@ -561,16 +1001,24 @@ export class SourceService {
 			),
 		};
 
+		// Contributor roles become CSL name lists, e.g. "Smith, John" -> { family, given }
+		for (const role of NAME_ROLES) {
+			const names = parseNameList(frontmatter[mappings[role] || role]);
+			if (names.length > 0) {
+				citationEntry[role] = names;
+			}
+		}
+
 		// Map fields using mappings directly
 		for (const bibField of BIB_FIELDS) {
+			if (NAME_ROLES.includes(bibField)) continue;
+
 			const frontmatterKey = mappings[bibField];
 			if (frontmatterKey && frontmatter[frontmatterKey]) {
 				const value = frontmatter[frontmatterKey];
 
-				// Handle arrays specially for author and keywords
-				if (bibField === "author" && Array.isArray(value)) {
-					citationEntry.author = value;
-				} else if (bibField === "keyword" && Array.isArray(value)) {
+				// Handle keywords as a list
+				if (bibField === "keyword" && Array.isArray(value)) {
 					citationEntry.keyword = value;
 				} else if (Array.isArray(value) && value.length > 0) {
 					// Convert other arrays to strings
@@ -586,35 +1034,50 @@ export class SourceService {
 		}
 
 		// Handle special fields that need specific formatting
+		// The full "date" is preferred over the mapped year field
 		const yearKey = mappings["issued"] || "year";
-		if (frontmatter[yearKey]) {
-			if (typeof frontmatter[yearKey] === "string") {
-				// Extract year from date string if needed
-				const yearMatch = frontmatter[yearKey].match(/\d{4}/);
-				if (yearMatch) {
-					citationEntry.issued = { "date-parts": [[yearMatch[0]]] };
-				}
-			} else if (typeof frontmatter[yearKey] === "number") {
-				citationEntry.issued = {
-					"date-parts": [[frontmatter[yearKey]]],
-				};
-			}
+		const issued =
+			parseDate(frontmatter.date) || parseDate(frontmatter[yearKey]);
+		if (issued) {
+			citationEntry.issued = issued;
+		}
+
+		const accessed = parseDate(
+			frontmatter[mappings["accessed"] || "accessed"]
+		);
+		if (accessed) {
+			citationEntry.accessed = accessed;
 		}
 
 		const doiKey = mappings["DOI"] || "doi";
 		if (frontmatter[doiKey] && typeof frontmatter[doiKey] === "string") {
 			// Clean up DOI - remove URL prefix if present
-			let doi = frontmatter[doiKey];
-			if (doi.startsWith("https://doi.org/")) {
-				doi = doi.replace("https://doi.org/", "");
-			} else if (doi.startsWith("http://dx.doi.org/")) {
-				doi = doi.replace("http://dx.doi.org/", "");
-			} else if (doi.startsWith("doi:")) {
-				doi = doi.replace("doi:", "").trim();
-			}
-			citationEntry.DOI = doi;
+			citationEntry.DOI = normalizeDoi(frontmatter[doiKey]);
+		}
+
+		// ISBN-10s and unhyphenated ISBNs are exported in the stored ISBN-13 form
+		const isbnField = mappings["ISBN"] || "isbn";
+		if (frontmatter[isbnField]) {
+			citationEntry.ISBN = formatIsbn(
+				String(frontmatter[isbnField]),
+				this.settings.hyphenateIsbn
+			);
 		}
 
+		// PubMed IDs and the journal abbreviation, e.g. for Vancouver styles
+		const extraFields: Record<string, string> = {
+			PMID: "pmid",
+			PMCID: "pmcid",
+			"container-title-short": "shortjournal",
+		};
+		Object.keys(extraFields).forEach((cslField) => {
+			const value =
+				frontmatter[mappings[cslField] || extraFields[cslField]];
+			if (value && String(value).trim() !== "") {
+				citationEntry[cslField] = String(value);
+			}
+		});
+
 		return citationEntry;
 	}
 }
@@ -1,12 +1,18 @@
+import type { TFile } from "obsidian";
+
 // Unified types for bibliography manager plugin
 
 export interface SourceData {
 	citekey: string;
 	title: string;
+	// Names as "particle Family, Suffix, Given" or "{Organization}", see utils/names
 	author: string[];
 	category: string[];
 	bibtype: string;
 	year?: string;
+	// EDTF dates: "2023-05-01", "2023-05", "2020/2021", "2023~"
+	date?: string;
+	accessed?: string;
 
 	// File and media fields
 	downloadurl?: string;
@@ -28,11 +34,20 @@ export interface SourceData {
 	abstractmd?: string;
 	publisher?: string;
 	journal?: string;
+	// Journal abbreviation, e.g. "N Engl J Med"
+	shortjournal?: string;
 	volume?: string;
 	number?: string;
 	doi?: string;
+	// ISBN-13, hyphenated if the setting is on, and the ISBN-10 of 978 ISBNs
 	isbn?: string;
+	isbn10?: string;
+	pmid?: string;
+	pmcid?: string;
 	url?: string;
+	// arXiv ID without version, e.g. "2301.12345", and its latest version, e.g. "v2"
+	arxiv?: string;
+	version?: string;
 
 	// Additional fields
 	aliases?: string[];
@@ -51,6 +66,16 @@ export interface SourceData {
 
 // export type ImportMethod = "doi" | "isbn" | "url" | "bibtex";
 
+// Searchable summary of a source note, built from its frontmatter
+export interface SourceIndexEntry {
+	file: TFile;
+	citekey: string;
+	title: string;
+	authors: string[];
+	year: string;
+	keywords: string[];
+}
+
 export interface BibliographyConfig {
 	mode: "directory" | "file";
 	path: string;
@@ -63,6 +88,7 @@ export const BIBLIOGRAPHY_FORMAT_MAPPING: Record<string, string> = {
 	".json": "csl-json",
 	".yaml": "hayagriva",
 	".yml": "hayagriva",
+	".md": "csl",
 };
 
 // Simple format→extension mapping for UI code
@@ -70,13 +96,18 @@ export const FORMAT_EXTENSION_MAPPING: Record<string, string> = {
 	bibtex: ".bib",
 	"csl-json": ".json",
 	hayagriva: ".yaml",
+	csl: ".md",
 };
 
 export interface SourceData2 {
 	citekey: string;
 	title: string;
 	author: string[];
+	// Other contributor roles (editor, translator, ...) keyed by CSL role
+	contributors?: Record<string, string[]>;
 	year: number;
+	date?: string;
+	accessed?: string;
 	type: "book" | "article" | "inproceedings" | "website" | "misc";
 	journal?: string;
 	publisher?: string;
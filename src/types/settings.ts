@@ -1,11 +1,33 @@
+export type BibliographyFormat = "bibtex" | "csl-json" | "hayagriva" | "csl";
+
+export type CitationFormat = "wikilink" | "pandoc" | "latex" | "typst";
+
+// How colliding citekeys are disambiguated: Smi23a, Smi23b or Smi23_2, Smi23_3
+export type CitekeySuffixScheme = "letters" | "numbers";
+
 export interface BibliographySettings {
 	sourcesFolder: string;
 	bibliographyFilename: string;
 	bibliographyOutputFolder: string;
-	bibliographyFormat: "bibtex" | "csl-json" | "hayagriva";
+	bibliographyFormat: BibliographyFormat;
 	autoGenerate: boolean;
+	citekeyPattern: string;
+	citekeySuffixScheme: CitekeySuffixScheme;
+	citationFormat: CitationFormat;
+	enableCitekeySuggest: boolean;
 	supportedFileTypes: string[];
+	// Folder for downloaded attachments, "./name" is relative to the source note
+	attachmentsFolder: string;
+	attachmentFilenamePattern: string;
+	downloadAttachments: boolean;
+	// Rename and move attachments together with their source note
+	syncAttachments: boolean;
 	crossrefEmail: string;
+	// Store ISBNs as 978-0-262-03384-8 instead of 9780262033848
+	hyphenateIsbn: boolean;
+	cslStylesFolder: string;
+	cslStyle: string;
+	cslLocale: string;
 	sourceNoteTemplate: string;
 	templateFile: string;
 	fieldMappings: Record<string, string>;
@@ -18,25 +40,77 @@ export const DEFAULT_SETTINGS: BibliographySettings = {
 	bibliographyOutputFolder: "",
 	bibliographyFormat: "bibtex" as const,
 	autoGenerate: false,
+	citekeyPattern: "",
+	citekeySuffixScheme: "letters" as const,
+	citationFormat: "wikilink" as const,
+	enableCitekeySuggest: true,
 	supportedFileTypes: ["pdf", "epub", "txt"],
+	attachmentsFolder: "attachments",
+	attachmentFilenamePattern: "{{citekey}}",
+	downloadAttachments: true,
+	syncAttachments: true,
 	crossrefEmail: "",
+	hyphenateIsbn: false,
+	cslStylesFolder: "csl",
+	cslStyle: "apa",
+	cslLocale: "en-US",
 	sourceNoteTemplate: `---
 citekey: {{citekey}}
 title: "{{title}}"
 author: {{authorArray}}
+editor: {{editorArray}}
+translator: {{translatorArray}}
+{{#if container-author}}
+container-author: {{container-authorArray}}
+{{/if}}
+{{#if collection-editor}}
+collection-editor: {{collection-editorArray}}
+{{/if}}
+{{#if editorial-director}}
+editorial-director: {{editorial-directorArray}}
+{{/if}}
+{{#if director}}
+director: {{directorArray}}
+{{/if}}
+{{#if interviewer}}
+interviewer: {{interviewerArray}}
+{{/if}}
+{{#if illustrator}}
+illustrator: {{illustratorArray}}
+{{/if}}
+{{#if composer}}
+composer: {{composerArray}}
+{{/if}}
+{{#if original-author}}
+original-author: {{original-authorArray}}
+{{/if}}
+{{#if recipient}}
+recipient: {{recipientArray}}
+{{/if}}
+{{#if reviewed-author}}
+reviewed-author: {{reviewed-authorArray}}
+{{/if}}
 keywords: {{keywordsArray}}
 bibtype: {{bibtype}}
-aliases: [{{atcitekey}}]
+aliases: ["{{atcitekey}}"]
 filename: {{filename}}
+filelink: "{{filelink}}"
 doi: {{doi}}
 isbn: {{isbn}}
+isbn10: {{isbn10}}
+arxiv: {{arxiv}}
+pmid: {{pmid}}
+pmcid: {{pmcid}}
 publisher: {{publisher}}
 journal: {{journal}}
+shortjournal: {{shortjournal}}
 volume: {{volume}}
 number: {{number}}
 pages: {{pages}}
 abstract: {{abstract}}
 year: {{year}}
+date: {{date}}
+accessed: {{accessed}}
 url: {{url}}
 downloadurl: {{downloadurl}}
 imageurl: {{imageurl}}
@@ -53,12 +127,20 @@ imageurl: {{imageurl}}
 
 {{abstractmd}}
 
+{{#if keywords}}
 **Keywords:** {{keywords}}
 
-**File:** [{{filename}}.pdf](./{{filename}}.pdf)
+{{/if}}
+{{#if filelink}}
+**File:** {{filelink}}
 
+{{/if}}
+{{#if doi}}
 DOI: {{doi}}
+{{/if}}
+{{#if url}}
 URL: {{url}}
+{{/if}}
 `,
 	templateFile: "",
 	fieldMappings: {
@@ -72,12 +154,15 @@ URL: {{url}}
 		publisher: "publisher",
 		"publisher-place": "publisher-place",
 		"container-title": "journal",
+		"container-title-short": "shortjournal",
 		volume: "volume",
 		issue: "number",
 		page: "pages",
 		issued: "year",
 		DOI: "doi",
 		ISBN: "isbn",
+		PMID: "pmid",
+		PMCID: "pmcid",
 		ISSN: "issn",
 		URL: "url",
 		abstract: "abstract",
@@ -0,0 +1,294 @@
+import {
+	App,
+	FuzzySuggestModal,
+	Modal,
+	Notice,
+	Setting,
+	TFile,
+} from "obsidian";
+import BibliographyManagerPlugin from "../main";
+import { BibliographySettings } from "../types/settings";
+import { loadTemplateFile } from "../utils/template";
+import { SourceImporter } from "../utils/soureImporter";
+import { lookupIdentifier } from "../utils/bulkImport";
+import {
+	AttachmentMetadata,
+	attachmentToSourceData,
+	completeIdentifiers,
+	readAttachment,
+} from "../utils/attachments";
+
+/**
+ * Whether a file is one of the attachment types in the settings
+ */
+export function isSupportedAttachment(
+	file: TFile | null,
+	settings: BibliographySettings
+): file is TFile {
+	return Boolean(
+		file &&
+			settings.supportedFileTypes
+				.map((type) => type.toLowerCase())
+				.includes(file.extension.toLowerCase())
+	);
+}
+
+/**
+ * Pick a PDF, EPUB or other supported attachment from the vault
+ */
+export class AttachmentSuggestModal extends FuzzySuggestModal<TFile> {
+	constructor(
+		app: App,
+		private settings: BibliographySettings,
+		private plugin?: BibliographyManagerPlugin
+	) {
+		super(app);
+		this.setPlaceholder("Choose an attachment to import");
+	}
+
+	getItems(): TFile[] {
+		return this.app.vault
+			.getFiles()
+			.filter((file) => isSupportedAttachment(file, this.settings));
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile): void {
+		new AttachmentImportModal(
+			this.app,
+			this.settings,
+			this.plugin,
+			file
+		).open();
+	}
+}
+
+/**
+ * Create a source note from the embedded metadata of an attachment, optionally
+ * completed by looking up the DOI or ISBN found in it
+ */
+export class AttachmentImportModal extends Modal {
+	private settings: BibliographySettings;
+	private plugin?: BibliographyManagerPlugin;
+	private metadata: AttachmentMetadata | null = null;
+	private mediaType = "default";
+	private enrich = true;
+
+	constructor(
+		app: App,
+		settings: BibliographySettings,
+		plugin: BibliographyManagerPlugin | undefined,
+		private file: TFile
+	) {
+		super(app);
+		this.settings = settings;
+		this.plugin = plugin;
+	}
+
+	async onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl("h2", { text: "Import from Attachment" });
+		contentEl.createEl("p", { text: this.file.path });
+
+		const statusEl = contentEl.createEl("p", {
+			text: "Reading metadata...",
+		});
+
+		try {
+			this.metadata = completeIdentifiers(
+				await readAttachment(this.app, this.file)
+			);
+			statusEl.remove();
+			this.renderForm(this.metadata);
+		} catch (error) {
+			console.error("Error reading attachment:", error);
+			statusEl.setText(
+				`Could not read metadata: ${
+					error instanceof Error ? error.message : "Unknown error"
+				}`
+			);
+		}
+	}
+
+	private renderForm(metadata: AttachmentMetadata) {
+		const { contentEl } = this;
+
+		new Setting(contentEl).setName("Title").addText((text) =>
+			text
+				.setPlaceholder(this.file.basename)
+				.setValue(metadata.title || "")
+				.onChange((value) => {
+					metadata.title = value.trim() || undefined;
+				})
+		);
+
+		new Setting(contentEl)
+			.setName("Authors")
+			.setDesc("One per line")
+			.addTextArea((text) =>
+				text.setValue(metadata.author.join("\n")).onChange((value) => {
+					metadata.author = value
+						.split("\n")
+						.map((name) => name.trim())
+						.filter((name) => name);
+				})
+			);
+
+		new Setting(contentEl)
+			.setName("Date")
+			.setDesc("Year or full date, e.g. 2023 or 2023-05-01")
+			.addText((text) =>
+				text.setValue(metadata.date || "").onChange((value) => {
+					metadata.date = value.trim() || undefined;
+				})
+			);
+
+		new Setting(contentEl).setName("DOI").addText((text) =>
+			text.setValue(metadata.doi || "").onChange((value) => {
+				metadata.doi = value.trim() || undefined;
+			})
+		);
+
+		new Setting(contentEl).setName("ISBN").addText((text) =>
+			text.setValue(metadata.isbn || "").onChange((value) => {
+				metadata.isbn = value.trim() || undefined;
+			})
+		);
+
+		new Setting(contentEl)
+			.setName("Complete metadata online")
+			.setDesc(
+				"Look up the DOI or ISBN and prefer its metadata over the embedded one"
+			)
+			.addToggle((toggle) =>
+				toggle.setValue(this.enrich).onChange((value) => {
+					this.enrich = value;
+				})
+			);
+
+		new Setting(contentEl)
+			.setName("Media Type")
+			.setDesc("Choose the type of source")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("default", "Default")
+					.addOption("Paper", "Paper")
+					.addOption("Book", "Book")
+					.addOption("Website", "Website")
+					.addOption("Other", "Other")
+					.setValue("default")
+					.onChange((value) => {
+						this.mediaType = value;
+					})
+			);
+
+		const buttonContainer = contentEl.createDiv({ cls: "import-actions" });
+		const importButton = buttonContainer.createEl("button", {
+			text: "Import Source",
+			cls: "mod-cta",
+		});
+		const cancelButton = buttonContainer.createEl("button", {
+			text: "Cancel",
+		});
+
+		importButton.onclick = async () => {
+			importButton.disabled = true;
+			await this.importSource(metadata);
+			importButton.disabled = false;
+		};
+		cancelButton.onclick = () => this.close();
+	}
+
+	/**
+	 * Metadata looked up by DOI or ISBN, or null if there is no identifier or the lookup fails
+	 */
+	private async lookup(
+		metadata: AttachmentMetadata
+	): Promise<Record<string, unknown> | null> {
+		const identifier = metadata.doi
+			? { type: "doi" as const, value: metadata.doi }
+			: metadata.isbn
+			? { type: "isbn" as const, value: metadata.isbn }
+			: null;
+		if (!identifier) return null;
+
+		try {
+			new Notice(`Looking up ${identifier.value}...`);
+			return await lookupIdentifier(
+				identifier,
+				this.mediaType,
+				this.settings.citekeyPattern
+			);
+		} catch (error) {
+			console.error("Attachment lookup error:", error);
+			new Notice(
+				`Lookup failed, using embedded metadata: ${
+					error instanceof Error ? error.message : "Unknown error"
+				}`
+			);
+			return null;
+		}
+	}
+
+	private async importSource(metadata: AttachmentMetadata) {
+		try {
+			const sourceData = attachmentToSourceData(
+				metadata,
+				this.file,
+				this.mediaType,
+				this.settings.citekeyPattern
+			);
+
+			const lookedUp = this.enrich ? await this.lookup(metadata) : null;
+			if (lookedUp) {
+				Object.keys(lookedUp).forEach((field) => {
+					const value = lookedUp[field];
+					const isEmpty =
+						value === undefined ||
+						value === null ||
+						value === "" ||
+						(Array.isArray(value) && value.length === 0);
+					if (!isEmpty) sourceData[field] = value;
+				});
+			}
+
+			// Load template file right before using it
+			if (this.plugin) {
+				await loadTemplateFile(this.plugin);
+			}
+
+			const importer = new SourceImporter(
+				this.app,
+				this.settings.sourcesFolder,
+				this.settings.sourceNoteTemplate,
+				this.settings.citekeySuffixScheme,
+				this.settings.citekeyPattern,
+				this.settings
+			);
+			const newFile = await importer.createSourceFile(
+				sourceData,
+				this.mediaType
+			);
+
+			await this.app.workspace.getLeaf(true).openFile(newFile);
+			new Notice(`Source imported: ${newFile.basename}`);
+			this.close();
+		} catch (error) {
+			console.error("Error importing attachment:", error);
+			new Notice(
+				`Error importing source: ${
+					error instanceof Error ? error.message : "Unknown error"
+				}`
+			);
+		}
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
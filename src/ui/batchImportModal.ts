@@ -0,0 +1,303 @@
+import { App, MarkdownView, Modal, Notice, Setting, TFile } from "obsidian";
+import BibliographyManagerPlugin from "../main";
+
+import { SourceService } from "../sourceService";
+import { BibliographySettings } from "../types/settings";
+import { loadTemplateFile } from "../utils/template";
+import { SourceImporter } from "../utils/soureImporter";
+import { lookupIdentifier } from "../utils/bulkImport";
+import { runWithConcurrency } from "../utils/batch";
+import { extractIdentifiers, identifierKey } from "../utils/identifiers";
+
+// Lookups in flight at once, low enough to stay clear of Crossref and OpenLibrary rate limits
+const BATCH_CONCURRENCY = 3;
+
+interface BatchImportReport {
+	created: string[];
+	skipped: { identifier: string; reason: string }[];
+	failed: { identifier: string; reason: string }[];
+}
+
+/**
+ * Import many DOIs, arXiv IDs and ISBNs at once, from a pasted list, the selection or the current note
+ */
+export class BatchImportModal extends Modal {
+	private settings: BibliographySettings;
+	private plugin?: BibliographyManagerPlugin;
+	private sourceService: SourceService;
+	private text: string;
+	private mediaType = "default";
+	private running = false;
+
+	constructor(
+		app: App,
+		settings: BibliographySettings,
+		plugin?: BibliographyManagerPlugin,
+		initialText = ""
+	) {
+		super(app);
+		this.settings = settings;
+		this.plugin = plugin;
+		this.sourceService = new SourceService(app, settings);
+		this.text = initialText;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: "Batch Import DOIs / ISBNs" });
+
+		let textArea: HTMLTextAreaElement;
+		const countEl = contentEl.createEl("p");
+		const updateCount = () => {
+			const identifiers = extractIdentifiers(this.text);
+			countEl.setText(`${identifiers.length} identifiers found`);
+		};
+
+		new Setting(contentEl)
+			.setName("Identifiers")
+			.setDesc(
+				"DOIs, doi.org links, arXiv IDs and ISBNs, one per line or comma separated. Surrounding text is ignored."
+			)
+			.addTextArea((text) => {
+				textArea = text.inputEl;
+				textArea.rows = 10;
+				text.setPlaceholder("10.1000/xyz123\n978-0-262-03384-8")
+					.setValue(this.text)
+					.onChange((value) => {
+						this.text = value;
+						updateCount();
+					});
+			});
+
+		new Setting(contentEl)
+			.setName("Scan for identifiers")
+			.setDesc("Replace the list with identifiers found in the editor")
+			.addButton((button) =>
+				button.setButtonText("Use selection").onClick(() => {
+					const selection = this.getActiveEditor()?.getSelection();
+					if (!selection) {
+						new Notice("No text selected");
+						return;
+					}
+					this.setText(textArea, selection);
+					updateCount();
+				})
+			)
+			.addButton((button) =>
+				button.setButtonText("Scan current note").onClick(async () => {
+					const file = this.app.workspace.getActiveFile();
+					if (!(file instanceof TFile)) {
+						new Notice("No active note");
+						return;
+					}
+					this.setText(
+						textArea,
+						await this.app.vault.cachedRead(file)
+					);
+					updateCount();
+				})
+			);
+
+		new Setting(contentEl)
+			.setName("Media Type")
+			.setDesc("Type used for all imported sources")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("default", "Default")
+					.addOption("Paper", "Paper")
+					.addOption("Book", "Book")
+					.addOption("Website", "Website")
+					.addOption("Other", "Other")
+					.setValue("default")
+					.onChange((value) => {
+						this.mediaType = value;
+					})
+			);
+
+		const reportContainer = contentEl.createDiv({
+			cls: "batch-import-report",
+		});
+
+		const buttonContainer = contentEl.createDiv({ cls: "import-actions" });
+		const importButton = buttonContainer.createEl("button", {
+			text: "Import All",
+			cls: "mod-cta",
+		});
+		const cancelButton = buttonContainer.createEl("button", {
+			text: "Close",
+		});
+
+		importButton.onclick = async () => {
+			importButton.disabled = true;
+			await this.importAll(reportContainer);
+			importButton.disabled = false;
+		};
+		cancelButton.onclick = () => this.close();
+
+		updateCount();
+	}
+
+	private getActiveEditor() {
+		return this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+	}
+
+	/**
+	 * Replace the list with the identifiers found in some text, one per line
+	 */
+	private setText(textArea: HTMLTextAreaElement, text: string) {
+		this.text = extractIdentifiers(text)
+			.map((identifier) => identifier.value)
+			.join("\n");
+		textArea.value = this.text;
+	}
+
+	private async importAll(container: HTMLElement) {
+		if (this.running) return;
+
+		const identifiers = extractIdentifiers(this.text);
+		if (identifiers.length === 0) {
+			new Notice("No DOIs, arXiv IDs or ISBNs found");
+			return;
+		}
+
+		this.running = true;
+		try {
+			const report: BatchImportReport = {
+				created: [],
+				skipped: [],
+				failed: [],
+			};
+
+			const identifierIndex = await this.sourceService.getIdentifierIndex(
+				this.settings.sourcesFolder
+			);
+			const pending = identifiers.filter((identifier) => {
+				const existing = identifierIndex.get(identifierKey(identifier));
+				if (existing) {
+					report.skipped.push({
+						identifier: identifier.value,
+						reason: `already in library: ${existing.path}`,
+					});
+				}
+				return !existing;
+			});
+
+			container.empty();
+			const progressEl = container.createEl("p", {
+				text: `Looking up ${pending.length} identifiers...`,
+			});
+
+			let done = 0;
+			const results = await runWithConcurrency(
+				pending,
+				BATCH_CONCURRENCY,
+				async (identifier) => {
+					try {
+						return await lookupIdentifier(
+							identifier,
+							this.mediaType,
+							this.settings.citekeyPattern
+						);
+					} finally {
+						done++;
+						progressEl.setText(
+							`Looked up ${done} of ${pending.length} identifiers...`
+						);
+					}
+				}
+			);
+
+			// Load template file right before using it
+			if (this.plugin) {
+				await loadTemplateFile(this.plugin);
+			}
+
+			// Notes are created one at a time so citekey suffixes don't collide
+			const importer = new SourceImporter(
+				this.app,
+				this.settings.sourcesFolder,
+				this.settings.sourceNoteTemplate,
+				this.settings.citekeySuffixScheme,
+				this.settings.citekeyPattern,
+				this.settings
+			);
+
+			for (let i = 0; i < pending.length; i++) {
+				const identifier = pending[i].value;
+				const result = results[i];
+				try {
+					if (!result.ok) throw result.error;
+					if (!result.value.title) {
+						throw new Error("Lookup returned no title");
+					}
+					await importer.createSourceFile(
+						result.value,
+						this.mediaType
+					);
+					report.created.push(identifier);
+				} catch (error) {
+					console.error(
+						`Batch import failed for ${identifier}:`,
+						error
+					);
+					report.failed.push({
+						identifier,
+						reason:
+							error instanceof Error
+								? error.message
+								: "Unknown error",
+					});
+				}
+			}
+
+			this.renderReport(container, report);
+			new Notice(
+				`Batch import finished: ${report.created.length} created, ${report.skipped.length} skipped, ${report.failed.length} failed`
+			);
+		} catch (error) {
+			console.error("Batch import error:", error);
+			new Notice(
+				`Batch import failed: ${
+					error instanceof Error ? error.message : "Unknown error"
+				}`
+			);
+		} finally {
+			this.running = false;
+		}
+	}
+
+	private renderReport(container: HTMLElement, report: BatchImportReport) {
+		container.empty();
+		container.createEl("h3", { text: "Import Summary" });
+
+		const summary = container.createEl("ul");
+		summary.createEl("li", { text: `Created: ${report.created.length}` });
+		summary.createEl("li", { text: `Skipped: ${report.skipped.length}` });
+		summary.createEl("li", { text: `Failed: ${report.failed.length}` });
+
+		if (report.skipped.length > 0) {
+			container.createEl("h4", { text: "Skipped identifiers" });
+			const skippedList = container.createEl("ul");
+			report.skipped.forEach(({ identifier, reason }) => {
+				skippedList.createEl("li", {
+					text: `${identifier}: ${reason}`,
+				});
+			});
+		}
+
+		if (report.failed.length > 0) {
+			container.createEl("h4", { text: "Failed identifiers" });
+			const failedList = container.createEl("ul");
+			report.failed.forEach(({ identifier, reason }) => {
+				failedList.createEl("li", { text: `${identifier}: ${reason}` });
+			});
+		}
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,211 @@
+import {
+	MarkdownPostProcessorContext,
+	MarkdownRenderChild,
+	TAbstractFile,
+	TFile,
+	debounce,
+	getAllTags,
+	normalizePath,
+	parseYaml,
+	sanitizeHTMLToDom,
+} from "obsidian";
+// @ts-ignore - citation-js doesn't have official TypeScript types
+import { Cite } from "@citation-js/core";
+import BibliographyManagerPlugin from "../main";
+import { extractCitekeys } from "../utils/citations";
+import { formatCslBibliography, loadCslResources } from "../utils/csl";
+import {
+	BibliographyBlockOptions,
+	matchesFilter,
+	parseBlockOptions,
+	sortByField,
+} from "../utils/bibliographyBlock";
+
+// Re-render at most this often while source notes are being edited
+const RERENDER_DELAY_MS = 1000;
+
+/**
+ * Register the ```bibliography code block that renders a formatted reference list
+ */
+export function registerBibliographyBlock(plugin: BibliographyManagerPlugin) {
+	plugin.registerMarkdownCodeBlockProcessor(
+		"bibliography",
+		(source, el, ctx) => {
+			ctx.addChild(new BibliographyBlockRenderer(plugin, source, el, ctx));
+		}
+	);
+}
+
+class BibliographyBlockRenderer extends MarkdownRenderChild {
+	constructor(
+		private plugin: BibliographyManagerPlugin,
+		private source: string,
+		containerEl: HTMLElement,
+		private ctx: MarkdownPostProcessorContext
+	) {
+		super(containerEl);
+	}
+
+	onload() {
+		const rerender = debounce(() => this.render(), RERENDER_DELAY_MS, true);
+		const handleChange = (file: TAbstractFile, oldPath?: string) => {
+			if (
+				this.isRelevant(file.path) ||
+				(oldPath && this.isRelevant(oldPath))
+			) {
+				rerender();
+			}
+		};
+
+		this.registerEvent(
+			this.plugin.app.metadataCache.on("changed", (file) =>
+				handleChange(file)
+			)
+		);
+		this.registerEvent(
+			this.plugin.app.metadataCache.on("deleted", (file) =>
+				handleChange(file)
+			)
+		);
+		this.registerEvent(
+			this.plugin.app.vault.on("rename", (file, oldPath) =>
+				handleChange(file, oldPath)
+			)
+		);
+
+		this.render();
+	}
+
+	/**
+	 * A change is relevant if it touches a source note or the note containing the block
+	 */
+	private isRelevant(path: string): boolean {
+		const sourcesFolder = normalizePath(this.plugin.settings.sourcesFolder);
+		return (
+			path === this.ctx.sourcePath ||
+			path.startsWith(`${sourcesFolder}/`)
+		);
+	}
+
+	private async render() {
+		const el = this.containerEl;
+
+		try {
+			const options = parseBlockOptions(
+				this.source.trim() ? parseYaml(this.source) : {}
+			);
+			const files = await this.collectSourceFiles(options);
+			const entries = files
+				.map((file) =>
+					this.plugin.sourceService.convertFrontmatterToCitationJS(
+						this.plugin.app.metadataCache.getFileCache(file)
+							?.frontmatter || {}
+					)
+				)
+				.filter((entry) => entry !== null);
+
+			el.empty();
+			el.addClass("bibliography-block");
+
+			if (entries.length === 0) {
+				el.createEl("p", {
+					text: "No sources found for this bibliography.",
+					cls: "bibliography-block-empty",
+				});
+				return;
+			}
+
+			await loadCslResources(
+				this.plugin.app,
+				this.plugin.settings.cslStylesFolder
+			);
+			// An explicit sort replaces the order of styles that sort themselves, like APA
+			const html = formatCslBibliography(
+				new Cite(entries),
+				options.style || this.plugin.settings.cslStyle,
+				this.plugin.settings.cslLocale,
+				"html",
+				Boolean(options.sort)
+			);
+			el.appendChild(sanitizeHTMLToDom(html));
+		} catch (error) {
+			console.error("Error rendering bibliography block:", error);
+			el.empty();
+			el.createEl("p", {
+				text: `Bibliography error: ${
+					error instanceof Error ? error.message : "Unknown error"
+				}`,
+				cls: "bibliography-block-error",
+			});
+		}
+	}
+
+	/**
+	 * Collect source notes for the block's scope, then apply filter and sort options
+	 */
+	private async collectSourceFiles(
+		options: BibliographyBlockOptions
+	): Promise<TFile[]> {
+		const { app, settings, sourceService } = this.plugin;
+		let files = await sourceService.findAllSourceFiles(
+			settings.sourcesFolder
+		);
+
+		if (options.scope === "current-note") {
+			const note = app.vault.getAbstractFileByPath(this.ctx.sourcePath);
+			if (!(note instanceof TFile)) return [];
+
+			const citekeys = extractCitekeys(await app.vault.cachedRead(note));
+			const order = new Map(citekeys.map((key, index) => [key, index]));
+			files = files
+				.filter((file) => order.has(this.getCitekey(file)))
+				.sort(
+					(a, b) =>
+						(order.get(this.getCitekey(a)) ?? 0) -
+						(order.get(this.getCitekey(b)) ?? 0)
+				);
+		} else if (options.scope === "folder") {
+			const folder = normalizePath(
+				options.folder || settings.sourcesFolder
+			);
+			files = files.filter((file) =>
+				file.path.startsWith(`${folder}/`)
+			);
+		} else if (options.scope === "tag" && options.tag) {
+			const tag = `#${options.tag}`.toLowerCase();
+			files = files.filter((file) => {
+				const cache = app.metadataCache.getFileCache(file);
+				const tags = cache ? getAllTags(cache) || [] : [];
+				return tags.some((t) => t.toLowerCase() === tag);
+			});
+		}
+
+		const filter = options.filter;
+		if (filter) {
+			files = files.filter((file) =>
+				matchesFilter(this.getFrontmatter(file), filter)
+			);
+		}
+
+		if (options.sort) {
+			files = sortByField(files, options.sort, (file) =>
+				this.getFrontmatter(file)
+			);
+		}
+
+		return files;
+	}
+
+	private getCitekey(file: TFile): string {
+		return String(
+			this.plugin.app.metadataCache.getFileCache(file)?.frontmatter
+				?.citekey || ""
+		);
+	}
+
+	private getFrontmatter(file: TFile): Record<string, unknown> {
+		return (
+			this.plugin.app.metadataCache.getFileCache(file)?.frontmatter || {}
+		);
+	}
+}
@@ -0,0 +1,344 @@
+import { App, Modal, Notice, Setting, TFile } from "obsidian";
+import BibliographyManagerPlugin from "../main";
+import { SourceService } from "../sourceService";
+import { BibliographySettings } from "../types/settings";
+import { loadTemplateFile } from "../utils/template";
+import { SourceImporter } from "../utils/soureImporter";
+import { BibliographyFileSuggest } from "./inputSuggest";
+import {
+	citationEntryToSourceData,
+	detectBibliographyFormat,
+	duplicateCitekeys,
+	mergeSourceFrontmatter,
+	parseBibliographyEntries,
+} from "../utils/bulkImport";
+
+type BulkEntryAction = "import" | "merge" | "skip";
+
+interface BulkEntry {
+	sourceData: Record<string, unknown>;
+	existingFile: TFile | null;
+	// Another entry of the same file has this citekey
+	duplicateInFile: boolean;
+	action: BulkEntryAction;
+}
+
+interface BulkImportReport {
+	created: string[];
+	merged: string[];
+	skipped: string[];
+	failed: { citekey: string; reason: string }[];
+}
+
+const BULK_IMPORT_EXTENSIONS = ["bib", "bibtex", "json", "yaml", "yml"];
+
+export class BulkImportModal extends Modal {
+	private settings: BibliographySettings;
+	private plugin?: BibliographyManagerPlugin;
+	private sourceService: SourceService;
+	private filePath = "";
+	private pastedContent = "";
+	private mediaType = "default";
+	private entries: BulkEntry[] = [];
+
+	constructor(
+		app: App,
+		settings: BibliographySettings,
+		plugin?: BibliographyManagerPlugin
+	) {
+		super(app);
+		this.settings = settings;
+		this.plugin = plugin;
+		this.sourceService = new SourceService(app, settings);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: "Bulk Import Sources" });
+
+		new Setting(contentEl)
+			.setName("Bibliography file")
+			.setDesc("BibTeX, CSL-JSON or Hayagriva file in your vault")
+			.addText((text) => {
+				text.setPlaceholder("references.bib").onChange((value) => {
+					this.filePath = value.trim();
+				});
+
+				new BibliographyFileSuggest(
+					this.app,
+					text.inputEl,
+					BULK_IMPORT_EXTENSIONS
+				);
+			});
+
+		new Setting(contentEl)
+			.setName("Or paste entries")
+			.setDesc("Used when no file is selected")
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("@article{...}\n@book{...}")
+					.onChange((value) => {
+						this.pastedContent = value;
+					})
+			);
+
+		new Setting(contentEl)
+			.setName("Media Type")
+			.setDesc("Type used for all imported sources")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("default", "Default")
+					.addOption("Paper", "Paper")
+					.addOption("Book", "Book")
+					.addOption("Website", "Website")
+					.addOption("Other", "Other")
+					.setValue("default")
+					.onChange((value) => {
+						this.mediaType = value;
+					})
+			);
+
+		const previewContainer = contentEl.createDiv({
+			cls: "bulk-import-preview",
+		});
+
+		const buttonContainer = contentEl.createDiv({ cls: "import-actions" });
+
+		const loadButton = buttonContainer.createEl("button", {
+			text: "Load Entries",
+		});
+		const importButton = buttonContainer.createEl("button", {
+			text: "Import Entries",
+			cls: "mod-cta",
+		});
+		const cancelButton = buttonContainer.createEl("button", {
+			text: "Cancel",
+		});
+
+		loadButton.onclick = () => this.loadEntries(previewContainer);
+		importButton.onclick = () => this.importEntries(previewContainer);
+		cancelButton.onclick = () => this.close();
+	}
+
+	private async loadEntries(container: HTMLElement) {
+		try {
+			let content = this.pastedContent;
+			let path: string | undefined;
+
+			if (this.filePath) {
+				const file = this.app.vault.getAbstractFileByPath(
+					this.filePath
+				);
+				if (!(file instanceof TFile)) {
+					new Notice(`File not found: ${this.filePath}`);
+					return;
+				}
+				content = await this.app.vault.read(file);
+				path = file.path;
+			}
+
+			if (!content || !content.trim()) {
+				new Notice("Please select a file or paste entries first");
+				return;
+			}
+
+			new Notice("Parsing bibliography...");
+
+			const format = detectBibliographyFormat(content, path);
+			const citationEntries = await parseBibliographyEntries(
+				content,
+				format
+			);
+			const citekeyIndex = await this.sourceService.getCitekeyIndex(
+				this.settings.sourcesFolder
+			);
+
+			const sources = citationEntries.map((entry) =>
+				citationEntryToSourceData(
+					entry,
+					this.mediaType,
+					format,
+					this.settings.citekeyPattern
+				)
+			);
+			const duplicates = duplicateCitekeys(sources);
+
+			this.entries = sources.map((sourceData) => {
+				// Entries without title, authors and year get no citekey
+				const citekey = sourceData.citekey
+					? String(sourceData.citekey)
+					: "";
+				const existingFile = citekey
+					? citekeyIndex.get(citekey) || null
+					: null;
+				return {
+					sourceData,
+					existingFile,
+					duplicateInFile: Boolean(citekey) && duplicates.has(citekey),
+					action: existingFile ? "skip" : "import",
+				};
+			});
+
+			new Notice(`Found ${this.entries.length} entries`);
+			this.renderPreview(container);
+		} catch (error) {
+			console.error("Bulk import parsing error:", error);
+			new Notice(
+				`Parsing failed: ${
+					error instanceof Error ? error.message : "Unknown error"
+				}`
+			);
+		}
+	}
+
+	private renderPreview(container: HTMLElement) {
+		container.empty();
+
+		const existingCount = this.entries.filter((e) => e.existingFile).length;
+		const duplicateCount = this.entries.filter(
+			(e) => e.duplicateInFile
+		).length;
+		container.createEl("h3", {
+			text: `Preview (${this.entries.length} entries, ${existingCount} already in library)`,
+		});
+		if (duplicateCount > 0) {
+			container.createEl("p", {
+				text: `${duplicateCount} entries share a citekey with another entry in this file. Review them before importing.`,
+			});
+		}
+
+		for (const entry of this.entries) {
+			const { sourceData, existingFile } = entry;
+			const { author } = sourceData;
+			const authors = Array.isArray(author) ? author.join("; ") : "";
+			let desc = `${authors} (${sourceData.year || "n.d."})`;
+			if (existingFile) {
+				desc += ` - exists: ${existingFile.path}`;
+			}
+			if (entry.duplicateInFile) {
+				desc += " - duplicate citekey in this file";
+			}
+
+			new Setting(container)
+				.setName(
+					`${sourceData.citekey || "(no citekey)"}: ${
+						sourceData.title || "Untitled"
+					}`
+				)
+				.setDesc(desc)
+				.addDropdown((dropdown) => {
+					if (existingFile) {
+						dropdown
+							.addOption("skip", "Skip")
+							.addOption("merge", "Merge missing fields");
+					} else {
+						dropdown
+							.addOption("import", "Import")
+							.addOption("skip", "Skip");
+					}
+					dropdown.setValue(entry.action).onChange((value) => {
+						entry.action = value as BulkEntryAction;
+					});
+				});
+		}
+	}
+
+	private async importEntries(container: HTMLElement) {
+		if (this.entries.length === 0) {
+			new Notice("Please load entries first");
+			return;
+		}
+
+		// Load template file right before using it
+		if (this.plugin) {
+			await loadTemplateFile(this.plugin);
+		}
+
+		const importer = new SourceImporter(
+			this.app,
+			this.settings.sourcesFolder,
+			this.settings.sourceNoteTemplate,
+			this.settings.citekeySuffixScheme,
+			this.settings.citekeyPattern,
+			this.settings
+		);
+		const report: BulkImportReport = {
+			created: [],
+			merged: [],
+			skipped: [],
+			failed: [],
+		};
+
+		for (const entry of this.entries) {
+			const citekey = String(
+				entry.sourceData.citekey || entry.sourceData.title || ""
+			);
+			try {
+				if (entry.action === "skip") {
+					report.skipped.push(citekey);
+				} else if (entry.action === "merge" && entry.existingFile) {
+					await this.app.fileManager.processFrontMatter(
+						entry.existingFile,
+						(frontmatter) => {
+							mergeSourceFrontmatter(
+								frontmatter,
+								entry.sourceData
+							);
+						}
+					);
+					report.merged.push(citekey);
+				} else {
+					if (!entry.sourceData.title) {
+						throw new Error("Entry has no title");
+					}
+					await importer.createSourceFile(
+						entry.sourceData,
+						this.mediaType
+					);
+					report.created.push(citekey);
+				}
+			} catch (error) {
+				console.error(`Bulk import failed for ${citekey}:`, error);
+				report.failed.push({
+					citekey,
+					reason:
+						error instanceof Error
+							? error.message
+							: "Unknown error",
+				});
+			}
+		}
+
+		this.entries = [];
+		this.renderReport(container, report);
+		new Notice(
+			`Bulk import finished: ${report.created.length} created, ${report.merged.length} merged, ${report.skipped.length} skipped, ${report.failed.length} failed`
+		);
+	}
+
+	private renderReport(container: HTMLElement, report: BulkImportReport) {
+		container.empty();
+		container.createEl("h3", { text: "Import Summary" });
+
+		const summary = container.createEl("ul");
+		summary.createEl("li", { text: `Created: ${report.created.length}` });
+		summary.createEl("li", { text: `Merged: ${report.merged.length}` });
+		summary.createEl("li", { text: `Skipped: ${report.skipped.length}` });
+		summary.createEl("li", { text: `Failed: ${report.failed.length}` });
+
+		if (report.failed.length > 0) {
+			container.createEl("h4", { text: "Failed entries" });
+			const failedList = container.createEl("ul");
+			report.failed.forEach(({ citekey, reason }) => {
+				failedList.createEl("li", { text: `${citekey}: ${reason}` });
+			});
+		}
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,74 @@
+import { App, Editor, SuggestModal, prepareFuzzySearch } from "obsidian";
+import { SourceIndexEntry } from "../types/interfaces";
+import { CitationFormat } from "../types/settings";
+import { formatCitation } from "../utils/citations";
+
+/**
+ * Text used for fuzzy matching: title, authors, year, keywords and citekey
+ */
+export function getSearchText(entry: SourceIndexEntry): string {
+	return [
+		entry.title,
+		entry.authors.join(" "),
+		entry.year,
+		entry.keywords.join(" "),
+		entry.citekey,
+	].join(" ");
+}
+
+/**
+ * Search all source notes and insert a citation at the cursor
+ */
+export class CitationSuggestModal extends SuggestModal<SourceIndexEntry> {
+	constructor(
+		app: App,
+		private editor: Editor,
+		private entries: SourceIndexEntry[],
+		private citationFormat: CitationFormat
+	) {
+		super(app);
+		this.setPlaceholder("Search sources by title, author, year or keyword");
+		this.setInstructions([
+			{ command: "↑↓", purpose: "to navigate" },
+			{ command: "↵", purpose: "to insert citation" },
+			{ command: "esc", purpose: "to dismiss" },
+		]);
+	}
+
+	getSuggestions(query: string): SourceIndexEntry[] {
+		if (!query.trim()) {
+			return this.entries;
+		}
+
+		const search = prepareFuzzySearch(query.trim());
+		return this.entries
+			.map((entry) => ({ entry, result: search(getSearchText(entry)) }))
+			.filter(({ result }) => result !== null)
+			.sort((a, b) => (b.result?.score ?? 0) - (a.result?.score ?? 0))
+			.map(({ entry }) => entry);
+	}
+
+	renderSuggestion(entry: SourceIndexEntry, el: HTMLElement): void {
+		el.createEl("div", { text: entry.title });
+
+		const authors =
+			entry.authors.length > 2
+				? `${entry.authors[0]} et al.`
+				: entry.authors.join("; ");
+		el.createEl("small", {
+			text: `${authors}${entry.year ? ` (${entry.year})` : ""} · @${
+				entry.citekey
+			}`,
+			cls: "bibliography-suggestion-note",
+		});
+	}
+
+	onChooseSuggestion(
+		entry: SourceIndexEntry,
+		evt: MouseEvent | KeyboardEvent
+	): void {
+		this.editor.replaceSelection(
+			formatCitation([entry.citekey], this.citationFormat)
+		);
+	}
+}
@@ -0,0 +1,182 @@
+import {
+	Editor,
+	EditorPosition,
+	EditorSuggest,
+	EditorSuggestContext,
+	EditorSuggestTriggerInfo,
+	TAbstractFile,
+	TFile,
+	normalizePath,
+	prepareFuzzySearch,
+} from "obsidian";
+import BibliographyManagerPlugin from "../main";
+import { SourceIndexEntry } from "../types/interfaces";
+import { getSearchText } from "./citationSuggestModal";
+
+// Fields of a citation-js entry shown in the preview
+interface CslPreview {
+	author?: (string | { literal?: string; family?: string })[];
+	issued?: { "date-parts"?: number[][] };
+	title?: string;
+}
+
+interface CitekeySuggestion {
+	entry: SourceIndexEntry;
+	csl: CslPreview | null;
+}
+
+// "@" at line start or after whitespace, "[", "(", ";" or "-" (Pandoc suppress-author), followed by a partial citekey
+const CITEKEY_TRIGGER = /(^|[\s[(;-])@([\w:.#$%&\-+?<>~/]*)$/;
+
+/**
+ * Suggest citekeys while typing "@" or "[@" in the editor
+ */
+export class CitekeySuggest extends EditorSuggest<CitekeySuggestion> {
+	// Built on the first "@" and kept until a source note changes
+	private suggestions: Promise<CitekeySuggestion[]> | null = null;
+
+	constructor(private plugin: BibliographyManagerPlugin) {
+		super(plugin.app);
+		this.limit = 50;
+
+		const invalidate = (file: TAbstractFile, oldPath?: string) => {
+			if (
+				this.isInSourcesFolder(file.path) ||
+				(oldPath && this.isInSourcesFolder(oldPath))
+			) {
+				this.suggestions = null;
+			}
+		};
+		plugin.registerEvent(
+			plugin.app.metadataCache.on("changed", (file) => invalidate(file))
+		);
+		plugin.registerEvent(
+			plugin.app.vault.on("delete", (file) => invalidate(file))
+		);
+		plugin.registerEvent(
+			plugin.app.vault.on("rename", (file, oldPath) =>
+				invalidate(file, oldPath)
+			)
+		);
+	}
+
+	private isInSourcesFolder(path: string): boolean {
+		const sourcesFolder = normalizePath(
+			this.plugin.settings.sourcesFolder
+		);
+		return path.startsWith(`${sourcesFolder}/`);
+	}
+
+	onTrigger(
+		cursor: EditorPosition,
+		editor: Editor,
+		file: TFile | null
+	): EditorSuggestTriggerInfo | null {
+		if (!this.plugin.settings.enableCitekeySuggest) return null;
+
+		const textBeforeCursor = editor
+			.getLine(cursor.line)
+			.substring(0, cursor.ch);
+		const match = textBeforeCursor.match(CITEKEY_TRIGGER);
+		if (!match || match.index === undefined) return null;
+
+		// Leave "[[@" to Obsidian's own link suggestions
+		if (textBeforeCursor.endsWith(`[[@${match[2]}`)) return null;
+
+		const atPosition = match.index + match[1].length;
+		return {
+			start: { line: cursor.line, ch: atPosition },
+			end: cursor,
+			query: match[2],
+		};
+	}
+
+	async getSuggestions(
+		context: EditorSuggestContext
+	): Promise<CitekeySuggestion[]> {
+		if (!this.suggestions) {
+			this.suggestions = this.buildSuggestions();
+		}
+		const suggestions = await this.suggestions;
+
+		const query = context.query.trim();
+		if (!query) return suggestions;
+
+		const search = prepareFuzzySearch(query);
+		return suggestions
+			.map((suggestion) => ({
+				suggestion,
+				result: search(getSearchText(suggestion.entry)),
+			}))
+			.filter(({ result }) => result !== null)
+			.sort((a, b) => (b.result?.score ?? 0) - (a.result?.score ?? 0))
+			.map(({ suggestion }) => suggestion);
+	}
+
+	/**
+	 * Index all sources with their citation-js data for the preview
+	 */
+	private async buildSuggestions(): Promise<CitekeySuggestion[]> {
+		const { sourceService, settings, app } = this.plugin;
+		const entries = await sourceService.getSourceEntries(
+			settings.sourcesFolder
+		);
+		return entries.map((entry) => ({
+			entry,
+			csl: sourceService.convertFrontmatterToCitationJS(
+				app.metadataCache.getFileCache(entry.file)?.frontmatter || {}
+			),
+		}));
+	}
+
+	renderSuggestion(suggestion: CitekeySuggestion, el: HTMLElement): void {
+		const { entry, csl } = suggestion;
+
+		el.createEl("div", { text: `@${entry.citekey}` });
+		el.createEl("small", {
+			text: formatPreview(csl, entry),
+			cls: "bibliography-suggestion-note",
+		});
+	}
+
+	selectSuggestion(
+		suggestion: CitekeySuggestion,
+		evt: MouseEvent | KeyboardEvent
+	): void {
+		if (!this.context) return;
+
+		const { editor, start, end } = this.context;
+		editor.replaceRange(`@${suggestion.entry.citekey}`, start, end);
+		editor.setCursor({
+			line: start.line,
+			ch: start.ch + suggestion.entry.citekey.length + 1,
+		});
+	}
+}
+
+/**
+ * "Authors (year): title" preview from a citation-js entry, falling back to the index entry
+ */
+function formatPreview(
+	csl: CslPreview | null,
+	entry: SourceIndexEntry
+): string {
+	const author = csl?.author;
+	const names: string[] = Array.isArray(author)
+		? author.map(cslAuthorName)
+		: entry.authors;
+	const authors =
+		names.length > 2 ? `${names[0]} et al.` : names.join(" & ");
+	const year = csl?.issued?.["date-parts"]?.[0]?.[0] || entry.year;
+	const title = csl?.title || entry.title;
+
+	return `${authors}${year ? ` (${year})` : ""}: ${title}`;
+}
+
+function cslAuthorName(
+	author: string | { literal?: string; family?: string }
+): string {
+	return typeof author === "string"
+		? author
+		: author.literal || author.family || "";
+}
@@ -0,0 +1,212 @@
+import { App, Modal, Notice, Setting, TFile } from "obsidian";
+import { SourceService } from "../sourceService";
+import { BibliographySettings } from "../types/settings";
+import {
+	DuplicateCandidate,
+	DuplicatePair,
+	findDuplicates,
+} from "../utils/duplicates";
+
+interface SourceCandidate extends DuplicateCandidate {
+	file: TFile;
+}
+
+// Frontmatter keys managed by the merge itself rather than picked per field;
+// the kept note keeps its citekey, so citations of it stay valid
+const MERGE_IGNORED_FIELDS = ["aliases", "position", "citekey"];
+
+export class DuplicateSourcesModal extends Modal {
+	private settings: BibliographySettings;
+	private sourceService: SourceService;
+	private pairs: DuplicatePair<SourceCandidate>[] = [];
+
+	constructor(app: App, settings: BibliographySettings) {
+		super(app);
+		this.settings = settings;
+		this.sourceService = new SourceService(app, settings);
+	}
+
+	async onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl("h2", { text: "Duplicate Sources" });
+		contentEl.createEl("p", { text: "Searching for duplicates..." });
+
+		const files = await this.sourceService.findAllSourceFiles(
+			this.settings.sourcesFolder
+		);
+		const candidates: SourceCandidate[] = files.map((file) => ({
+			file,
+			path: file.path,
+			frontmatter:
+				this.app.metadataCache.getFileCache(file)?.frontmatter || {},
+		}));
+
+		this.pairs = findDuplicates(candidates);
+		this.renderPairList();
+	}
+
+	private renderPairList() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl("h2", { text: "Duplicate Sources" });
+
+		if (this.pairs.length === 0) {
+			contentEl.createEl("p", { text: "No duplicate sources found." });
+			return;
+		}
+
+		contentEl.createEl("p", {
+			text: `Found ${this.pairs.length} likely duplicate pairs.`,
+		});
+
+		for (const pair of this.pairs) {
+			new Setting(contentEl)
+				.setName(`${pair.a.file.basename} ↔ ${pair.b.file.basename}`)
+				.setDesc(pair.reasons.join(", "))
+				.addButton((button) =>
+					button.setButtonText("Review").onClick(() => {
+						this.renderComparison(pair);
+					})
+				);
+		}
+	}
+
+	/**
+	 * Show both notes side by side and let the user pick each field value
+	 */
+	private renderComparison(pair: DuplicatePair<SourceCandidate>) {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl("h2", { text: "Merge Duplicate Sources" });
+		contentEl.createEl("p", { text: pair.reasons.join(", ") });
+
+		let keepA = true;
+		const fields = Array.from(
+			new Set([
+				...Object.keys(pair.a.frontmatter),
+				...Object.keys(pair.b.frontmatter),
+			])
+		).filter((field) => !MERGE_IGNORED_FIELDS.includes(field));
+
+		// Per field: true = take value from A, false = take value from B
+		const choices = new Map<string, boolean>();
+		fields.forEach((field) =>
+			choices.set(field, !isEmptyValue(pair.a.frontmatter[field]))
+		);
+
+		new Setting(contentEl)
+			.setName("Keep note")
+			.setDesc(
+				"The other note is merged into this one and moved to trash; links to it are updated"
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("a", pair.a.path)
+					.addOption("b", pair.b.path)
+					.setValue("a")
+					.onChange((value) => {
+						keepA = value === "a";
+					})
+			);
+
+		const table = contentEl.createEl("table", {
+			cls: "bibliography-duplicates-table",
+		});
+		const header = table.createEl("tr");
+		header.createEl("th", { text: "Field" });
+		header.createEl("th", { text: pair.a.file.basename });
+		header.createEl("th", { text: pair.b.file.basename });
+
+		fields.forEach((field) => {
+			const row = table.createEl("tr");
+			row.createEl("td", { text: field });
+
+			[true, false].forEach((fromA) => {
+				const value = (fromA ? pair.a : pair.b).frontmatter[field];
+				const cell = row.createEl("td");
+				const label = cell.createEl("label");
+				const radio = label.createEl("input", {
+					type: "radio",
+					attr: { name: `merge-${field}` },
+				});
+				radio.checked = choices.get(field) === fromA;
+				radio.onchange = () => choices.set(field, fromA);
+				label.appendText(` ${formatValue(value)}`);
+			});
+		});
+
+		contentEl.createEl("p", {
+			text: "Note bodies are combined: the body of the removed note is appended to the kept note.",
+			cls: "setting-item-description",
+		});
+
+		const buttonContainer = contentEl.createDiv({ cls: "import-actions" });
+		const mergeButton = buttonContainer.createEl("button", {
+			text: "Merge",
+			cls: "mod-cta",
+		});
+		const backButton = buttonContainer.createEl("button", {
+			text: "Back",
+		});
+
+		backButton.onclick = () => this.renderPairList();
+		mergeButton.onclick = async () => {
+			const keep = keepA ? pair.a : pair.b;
+			const remove = keepA ? pair.b : pair.a;
+
+			const frontmatter: Record<string, unknown> = {};
+			choices.forEach((fromA, field) => {
+				const value = (fromA ? pair.a : pair.b).frontmatter[field];
+				if (value !== undefined) {
+					frontmatter[field] = value;
+				}
+			});
+
+			try {
+				const { updatedFiles, rewrittenCitations } =
+					await this.sourceService.mergeSourceNotes(
+						keep.file,
+						remove.file,
+						frontmatter
+					);
+				new Notice(
+					`Merged ${remove.file.basename} into ${keep.file.basename} (${updatedFiles} files with updated links, ${rewrittenCitations} citations rewritten)`
+				);
+
+				// Pairs involving the removed note are resolved now
+				this.pairs = this.pairs.filter(
+					(p) => p.a !== remove && p.b !== remove
+				);
+				this.renderPairList();
+			} catch (error) {
+				console.error("Error merging sources:", error);
+				new Notice(
+					`Error merging sources: ${
+						error instanceof Error ? error.message : "Unknown error"
+					}`
+				);
+			}
+		};
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+function isEmptyValue(value: unknown): boolean {
+	return (
+		value === undefined ||
+		value === null ||
+		value === "" ||
+		(Array.isArray(value) && value.length === 0)
+	);
+}
+
+function formatValue(value: unknown): string {
+	if (isEmptyValue(value)) return "—";
+	if (Array.isArray(value)) return value.join("; ");
+	return String(value);
+}
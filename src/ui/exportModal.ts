@@ -1,11 +1,17 @@
 import { Modal, App, Setting, Notice } from "obsidian";
 import { SourceService } from "src/sourceService";
 import { FORMAT_EXTENSION_MAPPING } from "src/types/interfaces";
-import { BibliographySettings } from "src/types/settings";
+import { BibliographyFormat, BibliographySettings } from "src/types/settings";
+import { extractCitekeys } from "src/utils/citations";
+import { getAvailableCslStyles, loadCslResources } from "src/utils/csl";
 
 export class BibliographyExportModal extends Modal {
 	private bibContent: string = "";
 	private sources: any[] = [];
+	private missingCitekeys: string[] = [];
+	private exportScope = "vault";
+	private format: BibliographyFormat;
+	private cslStyle: string;
 	private settings: BibliographySettings;
 	private sourceService: SourceService;
 
@@ -13,6 +19,8 @@ export class BibliographyExportModal extends Modal {
 		super(app);
 		this.settings = settings;
 		this.sourceService = new SourceService(app, settings);
+		this.format = settings.bibliographyFormat;
+		this.cslStyle = settings.cslStyle;
 	}
 
 	async onOpen() {
@@ -29,10 +37,54 @@ export class BibliographyExportModal extends Modal {
 					.addOption("current", "Sources from current document")
 					.setValue("vault")
 					.onChange(async (value) => {
-						await this.loadSources(value);
+						this.exportScope = value;
+						await this.loadSources(this.exportScope);
+						this.updatePreview(previewEl, warningsEl);
 					})
 			);
 
+		// Format selection
+		new Setting(contentEl)
+			.setName("Format")
+			.setDesc("Data format or formatted reference list")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("bibtex", "BibTeX (.bib)")
+					.addOption("csl-json", "CSL JSON (.json)")
+					.addOption("hayagriva", "Hayagriva (.yaml)")
+					.addOption("csl", "Formatted reference list (.md)")
+					.setValue(this.format)
+					.onChange(async (value) => {
+						this.format = value as BibliographyFormat;
+						styleSetting.settingEl.style.display =
+							this.format === "csl" ? "" : "none";
+						await this.loadSources(this.exportScope);
+						this.updatePreview(previewEl, warningsEl);
+					})
+			);
+
+		// CSL style selection (only used for formatted reference lists)
+		await loadCslResources(this.app, this.settings.cslStylesFolder);
+		const styleSetting = new Setting(contentEl)
+			.setName("Citation style")
+			.setDesc(
+				`Styles from the '${this.settings.cslStylesFolder}' folder and built-in styles`
+			)
+			.addDropdown((dropdown) => {
+				getAvailableCslStyles().forEach((style) =>
+					dropdown.addOption(style, style)
+				);
+				return dropdown
+					.setValue(this.cslStyle)
+					.onChange(async (value) => {
+						this.cslStyle = value;
+						await this.loadSources(this.exportScope);
+						this.updatePreview(previewEl, warningsEl);
+					});
+			});
+		styleSetting.settingEl.style.display =
+			this.format === "csl" ? "" : "none";
+
 		// Loading indicator
 		const loadingEl = contentEl.createDiv({ cls: "bibliography-loading" });
 		loadingEl.createEl("p", { text: "Loading sources..." });
@@ -43,6 +95,10 @@ export class BibliographyExportModal extends Modal {
 		});
 		previewContainer.createEl("h3", { text: "Preview" });
 
+		const warningsEl = previewContainer.createDiv({
+			cls: "bibliography-warnings",
+		});
+
 		const previewEl = previewContainer.createEl("pre", {
 			cls: "bibliography-preview-content",
 			text: "Sources will appear here...",
@@ -67,13 +123,13 @@ export class BibliographyExportModal extends Modal {
 		cancelButton.onclick = () => this.close();
 
 		// Load initial sources
-		await this.loadSources("vault");
+		await this.loadSources(this.exportScope);
 
 		// Remove loading indicator
 		loadingEl.remove();
 
 		// Update preview when sources change
-		this.updatePreview(previewEl);
+		this.updatePreview(previewEl, warningsEl);
 	}
 
 	private async loadSources(scope: string) {
@@ -83,6 +139,8 @@ export class BibliographyExportModal extends Modal {
 			);
 
 			if (scope === "vault") {
+				this.missingCitekeys = [];
+
 				// Use sources folder from settings
 				const sourcesFolder = this.settings.sourcesFolder;
 				console.log(`📂 Using sources folder: ${sourcesFolder}`);
@@ -93,13 +151,15 @@ export class BibliographyExportModal extends Modal {
 				console.log(`📄 Found ${sourceFiles.length} source files`);
 
 				// Generate bibliography based on format
-				const format = this.settings.bibliographyFormat;
+				const format = this.format;
 				console.log(`📋 Generating bibliography in format: ${format}`);
 
 				// Use unified generateBibliography function
 				this.bibContent = await this.sourceService.generateBibliography(
 					sourcesFolder,
-					format
+					format,
+					undefined,
+					this.cslStyle
 				);
 
 				console.log(
@@ -108,9 +168,41 @@ export class BibliographyExportModal extends Modal {
 					}`
 				);
 			} else {
-				// Current document scope - would need to extract sources from current file
-				// For now, fall back to vault scope
-				await this.loadSources("vault");
+				// Current document scope - only export sources cited in the active note
+				const activeFile = this.app.workspace.getActiveFile();
+				if (!activeFile) {
+					this.bibContent = "";
+					this.missingCitekeys = [];
+					new Notice("No active document to collect citations from");
+					return;
+				}
+
+				const content = await this.app.vault.cachedRead(activeFile);
+				const citekeys = extractCitekeys(content);
+				console.log(
+					`📑 Found ${citekeys.length} cited citekeys in ${activeFile.path}`
+				);
+
+				const sourcesFolder = this.settings.sourcesFolder;
+				const citekeyIndex = await this.sourceService.getCitekeyIndex(
+					sourcesFolder
+				);
+				this.missingCitekeys = citekeys.filter(
+					(citekey) => !citekeyIndex.has(citekey)
+				);
+
+				const foundCitekeys = citekeys.filter((citekey) =>
+					citekeyIndex.has(citekey)
+				);
+				this.bibContent =
+					foundCitekeys.length > 0
+						? await this.sourceService.generateBibliography(
+								sourcesFolder,
+								this.format,
+								foundCitekeys,
+								this.cslStyle
+							)
+						: "";
 			}
 		} catch (error) {
 			console.error("Error loading sources:", error);
@@ -118,16 +210,26 @@ export class BibliographyExportModal extends Modal {
 		}
 	}
 
-	private updatePreview(previewEl: Element) {
+	private updatePreview(previewEl: Element, warningsEl: HTMLElement) {
 		previewEl.textContent = this.bibContent;
+
+		warningsEl.empty();
+		if (this.missingCitekeys.length > 0) {
+			warningsEl.createEl("p", {
+				text: `⚠️ ${this.missingCitekeys.length} cited citekeys have no source note:`,
+			});
+			const list = warningsEl.createEl("ul");
+			this.missingCitekeys.forEach((citekey) => {
+				list.createEl("li", { text: citekey });
+			});
+		}
 	}
 
 	private async exportBibliography() {
 		try {
 			// Generate full filename with extension based on format
 			const extension =
-				FORMAT_EXTENSION_MAPPING[this.settings.bibliographyFormat] ||
-				".bib";
+				FORMAT_EXTENSION_MAPPING[this.format] || ".bib";
 			const outputFolder =
 				this.settings.bibliographyOutputFolder ||
 				this.settings.sourcesFolder;
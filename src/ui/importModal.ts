@@ -10,6 +10,12 @@ import "@citation-js/plugin-bibtex";
 import { loadTemplateFile } from "../utils/template";
 import { CitekeyGenerator } from "../utils/citekey";
 import { SourceImporter } from "../utils/soureImporter";
+import { processCitationData } from "../utils/citationData";
+import { fetchArxivSource } from "../utils/arxiv";
+import { fetchPubmedCitation } from "../utils/pubmed";
+import { formatName } from "../utils/names";
+import { toIsbn13 } from "../utils/identifiers";
+import { BatchImportModal } from "./batchImportModal";
 import { BibliographySettings } from "src/types/settings";
 // Note: wikidata plugin removed to save 2.5MB bundle size
 
@@ -45,97 +51,16 @@ export class SourceImportModal extends Modal {
 	}
 
 	/**
-	 * Unified function to process citation-js data and update sourceData
-	 * Eliminates redundant code across all import methods
+	 * Process citation-js data into this.sourceData using the shared import pipeline
 	 */
 	private processCitationData(citationData: any): void {
-		if (!citationData || typeof citationData !== "object") {
-			throw new Error("Invalid citation data received");
-		}
-
-		// Update core fields - only overwrite if citation has value
-		this.sourceData.title = citationData.title || this.sourceData.title;
-		this.sourceData.author = citationData.author
-			? CitekeyGenerator.extractAuthorsFromCitationData(citationData)
-			: this.sourceData.author;
-		this.sourceData.year =
-			citationData.issued?.["date-parts"]?.[0]?.[0]?.toString() ||
-			citationData.published?.["date-parts"]?.[0]?.[0]?.toString() ||
-			citationData.year?.toString() ||
-			this.sourceData.year;
-		this.sourceData.abstract = citationData.abstract;
-
-		// Update bibliographic fields
-		this.sourceData.journal =
-			citationData["container-title"] || this.sourceData.journal;
-		this.sourceData.publisher =
-			citationData.publisher || this.sourceData.publisher;
-		this.sourceData.doi = citationData.DOI || this.sourceData.doi;
-		this.sourceData.isbn = citationData.ISBN || this.sourceData.isbn;
-		this.sourceData.url =
-			citationData.URL || citationData.url || this.sourceData.url;
-		this.sourceData.pages = citationData.page
-			? parseInt(citationData.page)
-			: undefined;
-		this.sourceData.volume = citationData.volume || this.sourceData.volume;
-		this.sourceData.number = citationData.issue || this.sourceData.number;
-
-		// Set bibtype based on media type setting
-		if (this.mediaType === "default") {
-			// Auto-detect from citation data with import mode-specific defaults
-			if (citationData.type) {
-				this.sourceData.bibtype = citationData.type;
-			} else {
-				// Fallback to import mode defaults if no type detected
-				switch (this.currentImportMode) {
-					case "isbn":
-						this.sourceData.bibtype = "book";
-						break;
-					case "url":
-						this.sourceData.bibtype = "webpage";
-						break;
-					case "bibtex":
-					case "doi":
-					default:
-						this.sourceData.bibtype = "article"; // Paper default
-						break;
-				}
-			}
-		} else {
-			// Use manually selected type
-			this.sourceData.bibtype =
-				this.mediaType === "Book"
-					? "book"
-					: this.mediaType === "Website"
-					? "webpage"
-					: this.mediaType === "Paper"
-					? "article"
-					: this.mediaType === "Other"
-					? "misc"
-					: citationData.type || "misc";
-		}
-
-		// Handle keywords if they exist
-		if (citationData.keyword) {
-			this.sourceData.keywords = Array.isArray(citationData.keyword)
-				? citationData.keyword
-				: [citationData.keyword];
-		}
-
-		// Generate citekey if not present and we have required data
-		if (
-			!this.sourceData.citekey &&
-			this.sourceData.title &&
-			this.sourceData.author &&
-			this.sourceData.year
-		) {
-			this.sourceData.citekey =
-				CitekeyGenerator.generateFromTitleAndAuthors(
-					this.sourceData.title,
-					this.sourceData.author,
-					parseInt(this.sourceData.year)
-				);
-		}
+		processCitationData(
+			citationData,
+			this.sourceData,
+			this.mediaType,
+			this.currentImportMode,
+			this.settings.citekeyPattern
+		);
 	}
 
 	onOpen() {
@@ -157,12 +82,21 @@ export class SourceImportModal extends Modal {
 		const isbnButton = methodContainer.createEl("button", {
 			text: "📖 ISBN",
 		}) as HTMLButtonElement;
+		const arxivButton = methodContainer.createEl("button", {
+			text: "🧪 arXiv",
+		}) as HTMLButtonElement;
+		const pubmedButton = methodContainer.createEl("button", {
+			text: "🩺 PubMed",
+		}) as HTMLButtonElement;
 		const urlButton = methodContainer.createEl("button", {
 			text: "🔗 URL",
 		}) as HTMLButtonElement;
 		const manualButton = methodContainer.createEl("button", {
 			text: "✏️ Manual",
 		}) as HTMLButtonElement;
+		const batchButton = methodContainer.createEl("button", {
+			text: "📋 Batch",
+		}) as HTMLButtonElement;
 
 		// Source type selection
 		const typeContainer = contentEl.createDiv({ cls: "source-type" });
@@ -205,14 +139,20 @@ export class SourceImportModal extends Modal {
 		doiButton.onclick = () => this.showDoiImport(contentArea);
 
 		isbnButton.onclick = () => this.showIsbnImport(contentArea);
+		arxivButton.onclick = () => this.showArxivImport(contentArea);
+		pubmedButton.onclick = () => this.showPubmedImport(contentArea);
 		bibtexButton.onclick = () => this.showBibtexImport(contentArea);
 		manualButton.onclick = () => this.showManualImport(contentArea);
+		batchButton.onclick = () => {
+			this.close();
+			new BatchImportModal(this.app, this.settings, this.plugin).open();
+		};
 
 		importButton.onclick = () => this.importSource();
 		cancelButton.onclick = () => this.close();
 	}
 
-	private showUrlImport(container: any) {
+	private showUrlImport(container: HTMLElement) {
 		container.empty();
 		this.setDefaultMediaType("url");
 
@@ -233,7 +173,7 @@ export class SourceImportModal extends Modal {
 		fetchButton.onclick = () => this.fetchUrlMetadata();
 	}
 
-	private showDoiImport(container: any) {
+	private showDoiImport(container: HTMLElement) {
 		container.empty();
 		this.setDefaultMediaType("doi");
 
@@ -252,7 +192,7 @@ export class SourceImportModal extends Modal {
 		lookupButton.onclick = () => this.lookupDoi();
 	}
 
-	private showIsbnImport(container: any) {
+	private showIsbnImport(container: HTMLElement) {
 		container.empty();
 		this.setDefaultMediaType("isbn");
 
@@ -271,7 +211,45 @@ export class SourceImportModal extends Modal {
 		lookupButton.onclick = () => this.lookupIsbn();
 	}
 
-	private showBibtexImport(container: any) {
+	private showArxivImport(container: HTMLElement) {
+		container.empty();
+		this.setDefaultMediaType("arxiv");
+
+		new Setting(container)
+			.setName("arXiv ID")
+			.setDesc("arXiv:2301.12345, hep-th/9901001 or an arxiv.org link")
+			.addText((text) =>
+				text.setPlaceholder("arXiv:2301.12345").onChange((value) => {
+					this.sourceData.arxiv = value;
+				})
+			);
+
+		const lookupButton = container.createEl("button", {
+			text: "Lookup arXiv",
+		}) as HTMLButtonElement;
+		lookupButton.onclick = () => this.lookupArxiv();
+	}
+
+	private showPubmedImport(container: HTMLElement) {
+		container.empty();
+		this.setDefaultMediaType("pubmed");
+
+		new Setting(container)
+			.setName("PMID or PMCID")
+			.setDesc("PMID: 33301246, PMC7745181 or a PubMed link")
+			.addText((text) =>
+				text.setPlaceholder("33301246").onChange((value) => {
+					this.sourceData.pmid = value;
+				})
+			);
+
+		const lookupButton = container.createEl("button", {
+			text: "Lookup PubMed",
+		}) as HTMLButtonElement;
+		lookupButton.onclick = () => this.lookupPubmed();
+	}
+
+	private showBibtexImport(container: HTMLElement) {
 		container.empty();
 		this.setDefaultMediaType("bibtex");
 
@@ -294,7 +272,7 @@ export class SourceImportModal extends Modal {
 		parseButton.onclick = () => this.parseBibtex();
 	}
 
-	private showManualImport(container: any) {
+	private showManualImport(container: HTMLElement) {
 		container.empty();
 		this.setDefaultMediaType("manual");
 
@@ -313,9 +291,11 @@ export class SourceImportModal extends Modal {
 				text
 					.setPlaceholder("John Smith; Jane Doe")
 					.onChange((value) => {
+						// Store names in their round-trippable form, e.g. "Smith, John"
 						this.sourceData.author = value
 							.split(";")
-							.map((a) => a.trim());
+							.map((a) => formatName(a))
+							.filter((a) => a.length > 0);
 					})
 			);
 
@@ -349,7 +329,9 @@ export class SourceImportModal extends Modal {
 				const citekey = CitekeyGenerator.generateFromTitleAndAuthors(
 					this.sourceData.title,
 					this.sourceData.author,
-					this.sourceData.year
+					this.sourceData.year,
+					this.settings.citekeyPattern,
+					this.sourceData.journal
 				);
 				this.sourceData.citekey = citekey;
 				new Notice(`Generated citekey: ${citekey}`);
@@ -485,10 +467,14 @@ export class SourceImportModal extends Modal {
 
 			new Notice("Looking up ISBN...");
 
-			// Clean ISBN input
-			const cleanISBN = this.sourceData.isbn.replace(/[-\s]/g, "");
+			// Check the check digit before asking the catalogues
+			const isbn = toIsbn13(this.sourceData.isbn);
+			if (!isbn) {
+				new Notice(`Not a valid ISBN: ${this.sourceData.isbn}`);
+				return;
+			}
 
-			const cite = await Cite.async(cleanISBN);
+			const cite = await Cite.async(isbn);
 			const data = await cite.format("data", { format: "object" });
 
 			if (!data || data.length === 0) {
@@ -512,6 +498,66 @@ export class SourceImportModal extends Modal {
 		}
 	}
 
+	private async lookupArxiv() {
+		try {
+			if (!this.sourceData.arxiv) {
+				new Notice("Please enter an arXiv ID first");
+				return;
+			}
+
+			new Notice("Looking up arXiv...");
+
+			const sourceData = await fetchArxivSource(
+				this.sourceData.arxiv,
+				this.mediaType,
+				this.settings.citekeyPattern
+			);
+			Object.assign(this.sourceData, sourceData);
+
+			new Notice("arXiv lookup successful");
+
+			// Show updated data to user
+			this.showUpdatedData();
+		} catch (error) {
+			console.error("arXiv lookup error:", error);
+			new Notice(
+				`arXiv lookup failed: ${
+					error instanceof Error ? error.message : "Unknown error"
+				}`
+			);
+		}
+	}
+
+	private async lookupPubmed() {
+		try {
+			if (!this.sourceData.pmid) {
+				new Notice("Please enter a PMID or PMCID first");
+				return;
+			}
+
+			new Notice("Looking up PubMed...");
+
+			const citationData = await fetchPubmedCitation(
+				this.sourceData.pmid
+			);
+
+			// Use unified function to process citation data
+			this.processCitationData(citationData);
+
+			new Notice("PubMed lookup successful");
+
+			// Show updated data to user
+			this.showUpdatedData();
+		} catch (error) {
+			console.error("PubMed lookup error:", error);
+			new Notice(
+				`PubMed lookup failed: ${
+					error instanceof Error ? error.message : "Unknown error"
+				}`
+			);
+		}
+	}
+
 	private createBasicWebsiteData(url: string) {
 		this.sourceData.title =
 			this.sourceData.title || CitekeyGenerator.extractTitleFromURL(url);
@@ -526,7 +572,9 @@ export class SourceImportModal extends Modal {
 				CitekeyGenerator.generateFromTitleAndAuthors(
 					this.sourceData.title,
 					this.sourceData.author,
-					parseInt(this.sourceData.year)
+					this.sourceData.year,
+					this.settings.citekeyPattern,
+					this.sourceData.journal
 				);
 		}
 	}
@@ -555,7 +603,10 @@ export class SourceImportModal extends Modal {
 			const importer = new SourceImporter(
 				this.app,
 				this.settings.sourcesFolder,
-				this.settings.sourceNoteTemplate
+				this.settings.sourceNoteTemplate,
+				this.settings.citekeySuffixScheme,
+				this.settings.citekeyPattern,
+				this.settings
 			);
 			const newFile = await importer.createSourceFile(
 				this.sourceData,
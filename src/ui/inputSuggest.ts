@@ -88,3 +88,42 @@ export class TemplateFileSuggest extends AbstractInputSuggest<string> {
 		this.close();
 	}
 }
+
+// Bibliography file suggestion class for autocompleting .bib/.json/.yaml files
+export class BibliographyFileSuggest extends AbstractInputSuggest<string> {
+	private files: string[];
+
+	constructor(
+		app: App,
+		private inputEl: HTMLInputElement,
+		extensions: string[]
+	) {
+		super(app, inputEl);
+		this.files = this.app.vault
+			.getFiles()
+			.filter((file) => extensions.includes(file.extension))
+			.map((file) => file.path)
+			.sort();
+	}
+
+	getInstructions(): string {
+		return "Type to filter bibliography files";
+	}
+
+	getSuggestions(inputStr: string): string[] {
+		const inputLower = inputStr.toLowerCase();
+		return this.files.filter((file) =>
+			file.toLowerCase().includes(inputLower)
+		);
+	}
+
+	renderSuggestion(file: string, el: HTMLElement): void {
+		el.createEl("div", { text: file });
+	}
+
+	selectSuggestion(file: string, evt: MouseEvent | KeyboardEvent): void {
+		this.inputEl.value = file;
+		this.inputEl.dispatchEvent(new Event("input"));
+		this.close();
+	}
+}
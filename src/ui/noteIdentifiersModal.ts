@@ -0,0 +1,198 @@
+import { App, Modal, Notice, Setting, TFile } from "obsidian";
+import BibliographyManagerPlugin from "../main";
+import { SourceService } from "../sourceService";
+import { BibliographySettings } from "../types/settings";
+import { loadTemplateFile } from "../utils/template";
+import { SourceImporter } from "../utils/soureImporter";
+import { lookupIdentifier } from "../utils/bulkImport";
+import {
+	extractIdentifiers,
+	identifierKey,
+	SourceIdentifier,
+} from "../utils/identifiers";
+
+interface FoundIdentifier {
+	identifier: SourceIdentifier;
+	existingFile: TFile | null;
+	imported?: TFile;
+}
+
+/**
+ * List the DOIs and arXiv IDs mentioned in a note, split into sources already in the library
+ * and new ones that can be imported with one click
+ */
+export class NoteIdentifiersModal extends Modal {
+	private settings: BibliographySettings;
+	private plugin?: BibliographyManagerPlugin;
+	private sourceService: SourceService;
+	private found: FoundIdentifier[] = [];
+	private importer: SourceImporter | null = null;
+
+	constructor(
+		app: App,
+		settings: BibliographySettings,
+		plugin: BibliographyManagerPlugin | undefined,
+		private file: TFile
+	) {
+		super(app);
+		this.settings = settings;
+		this.plugin = plugin;
+		this.sourceService = new SourceService(app, settings);
+	}
+
+	async onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl("h2", { text: `DOIs in ${this.file.basename}` });
+
+		const content = await this.app.vault.cachedRead(this.file);
+		const identifierIndex = await this.sourceService.getIdentifierIndex(
+			this.settings.sourcesFolder
+		);
+
+		this.found = extractIdentifiers(content)
+			.filter((identifier) => identifier.type !== "isbn")
+			.map((identifier) => ({
+				identifier,
+				existingFile:
+					identifierIndex.get(identifierKey(identifier)) || null,
+			}));
+
+		this.render();
+	}
+
+	private render() {
+		const { contentEl } = this;
+		contentEl.querySelector(".bibliography-note-identifiers")?.remove();
+		const container = contentEl.createDiv({
+			cls: "bibliography-note-identifiers",
+		});
+
+		if (this.found.length === 0) {
+			container.createEl("p", {
+				text: "No DOIs or arXiv IDs found in this note.",
+			});
+			return;
+		}
+
+		const known = this.found.filter((item) => item.existingFile);
+		const missing = this.found.filter((item) => !item.existingFile);
+
+		container.createEl("h3", { text: `New (${missing.length})` });
+		if (missing.length === 0) {
+			container.createEl("p", {
+				text: "All cited works are already in your library.",
+			});
+		}
+		missing.forEach((item) => this.renderMissing(container, item));
+
+		container.createEl("h3", { text: `In library (${known.length})` });
+		known.forEach((item) => {
+			new Setting(container)
+				.setName(this.label(item.identifier))
+				.setDesc(item.existingFile?.path || "")
+				.addButton((button) =>
+					button.setButtonText("Open").onClick(() => {
+						if (item.existingFile) {
+							this.app.workspace
+								.getLeaf(true)
+								.openFile(item.existingFile);
+							this.close();
+						}
+					})
+				);
+		});
+
+		const pending = missing.filter((item) => !item.imported);
+		if (pending.length > 1) {
+			const buttonContainer = container.createDiv({
+				cls: "import-actions",
+			});
+			const importAllButton = buttonContainer.createEl("button", {
+				text: `Import all ${pending.length} new`,
+				cls: "mod-cta",
+			});
+			importAllButton.onclick = async () => {
+				importAllButton.disabled = true;
+				for (const item of pending) {
+					await this.importItem(item);
+				}
+				this.render();
+			};
+		}
+	}
+
+	private renderMissing(container: HTMLElement, item: FoundIdentifier) {
+		const setting = new Setting(container).setName(
+			this.label(item.identifier)
+		);
+
+		if (item.imported) {
+			setting.setDesc(`Imported as ${item.imported.path}`);
+			return;
+		}
+
+		setting.addButton((button) =>
+			button
+				.setButtonText("Import")
+				.setCta()
+				.onClick(async () => {
+					button.setDisabled(true);
+					await this.importItem(item);
+					this.render();
+				})
+		);
+	}
+
+	private label(identifier: SourceIdentifier): string {
+		return identifier.type === "arxiv"
+			? `arXiv:${identifier.value}`
+			: identifier.value;
+	}
+
+	private async importItem(item: FoundIdentifier) {
+		try {
+			if (!this.importer) {
+				// Load template file right before using it
+				if (this.plugin) {
+					await loadTemplateFile(this.plugin);
+				}
+				// One importer for the whole list so citekey suffixes don't collide
+				this.importer = new SourceImporter(
+					this.app,
+					this.settings.sourcesFolder,
+					this.settings.sourceNoteTemplate,
+					this.settings.citekeySuffixScheme,
+					this.settings.citekeyPattern,
+					this.settings
+				);
+			}
+
+			const sourceData = await lookupIdentifier(
+				item.identifier,
+				"default",
+				this.settings.citekeyPattern
+			);
+			if (!sourceData.title) {
+				throw new Error("Lookup returned no title");
+			}
+			item.imported = await this.importer.createSourceFile(
+				sourceData,
+				"default"
+			);
+			new Notice(`Imported ${item.imported.basename}`);
+		} catch (error) {
+			console.error(`Import failed for ${item.identifier.value}:`, error);
+			new Notice(
+				`Import failed for ${item.identifier.value}: ${
+					error instanceof Error ? error.message : "Unknown error"
+				}`
+			);
+		}
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,372 @@
+import { App, Modal, Notice, Setting, TFile } from "obsidian";
+import { SourceService } from "../sourceService";
+import { BibliographySettings } from "../types/settings";
+import { runWithConcurrency } from "../utils/batch";
+import {
+	FieldChange,
+	applyFieldChanges,
+	diffSourceFields,
+	fetchRefreshedSource,
+	isFillingChange,
+	refreshTarget,
+} from "../utils/refresh";
+
+// Lookups in flight at once, low enough to stay clear of Crossref and OpenLibrary rate limits
+const REFRESH_CONCURRENCY = 3;
+
+interface RefreshResult {
+	file: TFile;
+	changes: FieldChange[];
+	apply: boolean;
+}
+
+function formatValue(value: unknown): string {
+	if (
+		value === undefined ||
+		value === null ||
+		value === "" ||
+		(Array.isArray(value) && value.length === 0)
+	) {
+		return "—";
+	}
+	if (Array.isArray(value)) return value.join("; ");
+	return String(value);
+}
+
+/**
+ * Re-fetch the metadata of one source note and let the user pick which changed fields to write back
+ * Only the frontmatter is updated; the note body stays as it is
+ */
+export class RefreshSourceModal extends Modal {
+	private changes: FieldChange[] = [];
+	// Fields the user accepted
+	private accepted = new Set<string>();
+
+	constructor(app: App, private file: TFile) {
+		super(app);
+	}
+
+	async onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl("h2", { text: "Refresh Source Metadata" });
+		contentEl.createEl("p", { text: this.file.basename });
+
+		const frontmatter =
+			this.app.metadataCache.getFileCache(this.file)?.frontmatter || {};
+		const target = refreshTarget(frontmatter);
+		const statusEl = contentEl.createEl("p", {
+			text: target
+				? `Looking up ${target.value}...`
+				: "Looking up metadata...",
+		});
+
+		try {
+			const sourceData = await fetchRefreshedSource(frontmatter);
+			this.changes = diffSourceFields(frontmatter, sourceData);
+			statusEl.remove();
+			this.renderChanges();
+		} catch (error) {
+			console.error("Error refreshing source:", error);
+			statusEl.setText(
+				`Could not refresh metadata: ${
+					error instanceof Error ? error.message : "Unknown error"
+				}`
+			);
+		}
+	}
+
+	private renderChanges() {
+		const { contentEl } = this;
+
+		if (this.changes.length === 0) {
+			contentEl.createEl("p", {
+				text: "The note already matches the looked-up metadata.",
+			});
+			return;
+		}
+
+		contentEl.createEl("p", {
+			text: "Tick the fields to update. Empty fields are ticked by default; the note body is not changed.",
+			cls: "setting-item-description",
+		});
+
+		// Fill empty fields by default, replacing existing values is opt-in
+		this.accepted = new Set(
+			this.changes.filter(isFillingChange).map(({ field }) => field)
+		);
+
+		const table = contentEl.createEl("table", {
+			cls: "bibliography-duplicates-table",
+		});
+		const header = table.createEl("tr");
+		header.createEl("th");
+		header.createEl("th", { text: "Field" });
+		header.createEl("th", { text: "Current" });
+		header.createEl("th", { text: "Looked up" });
+
+		this.changes.forEach(({ field, current, incoming }) => {
+			const row = table.createEl("tr");
+			const checkbox = row
+				.createEl("td")
+				.createEl("input", { type: "checkbox" });
+			checkbox.checked = this.accepted.has(field);
+			checkbox.onchange = () => {
+				if (checkbox.checked) this.accepted.add(field);
+				else this.accepted.delete(field);
+			};
+			row.createEl("td", { text: field });
+			row.createEl("td", { text: formatValue(current) });
+			row.createEl("td", { text: formatValue(incoming) });
+		});
+
+		const buttonContainer = contentEl.createDiv({ cls: "import-actions" });
+		const applyButton = buttonContainer.createEl("button", {
+			text: "Update Fields",
+			cls: "mod-cta",
+		});
+		const cancelButton = buttonContainer.createEl("button", {
+			text: "Cancel",
+		});
+
+		applyButton.onclick = async () => {
+			const accepted = this.changes.filter(({ field }) =>
+				this.accepted.has(field)
+			);
+			if (accepted.length === 0) {
+				new Notice("No fields selected");
+				return;
+			}
+
+			try {
+				await this.app.fileManager.processFrontMatter(this.file, (fm) =>
+					applyFieldChanges(fm, accepted)
+				);
+				new Notice(
+					`Updated ${accepted.length} fields of ${this.file.basename}`
+				);
+				this.close();
+			} catch (error) {
+				console.error("Error updating source:", error);
+				new Notice(
+					`Error updating source: ${
+						error instanceof Error ? error.message : "Unknown error"
+					}`
+				);
+			}
+		};
+		cancelButton.onclick = () => this.close();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+/**
+ * Re-fetch the metadata of every source note with a DOI, arXiv ID, ISBN or URL
+ * and update them after a per-note review
+ */
+export class RefreshAllSourcesModal extends Modal {
+	private settings: BibliographySettings;
+	private sourceService: SourceService;
+	private overwrite = false;
+	private running = false;
+
+	constructor(app: App, settings: BibliographySettings) {
+		super(app);
+		this.settings = settings;
+		this.sourceService = new SourceService(app, settings);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl("h2", { text: "Refresh All Sources" });
+		contentEl.createEl("p", {
+			text: `Looks up every source in '${this.settings.sourcesFolder}' by its DOI, arXiv ID, ISBN or URL. You can review the changes before anything is written.`,
+		});
+
+		new Setting(contentEl)
+			.setName("Replace existing values")
+			.setDesc(
+				"Also update fields whose looked-up value differs, not only empty ones"
+			)
+			.addToggle((toggle) =>
+				toggle.setValue(this.overwrite).onChange((value) => {
+					this.overwrite = value;
+				})
+			);
+
+		const resultContainer = contentEl.createDiv();
+		const buttonContainer = contentEl.createDiv({ cls: "import-actions" });
+		const startButton = buttonContainer.createEl("button", {
+			text: "Look Up",
+			cls: "mod-cta",
+		});
+		startButton.onclick = async () => {
+			startButton.disabled = true;
+			await this.lookUpAll(resultContainer);
+			startButton.remove();
+		};
+	}
+
+	private async lookUpAll(container: HTMLElement) {
+		if (this.running) return;
+		this.running = true;
+
+		try {
+			const files = (
+				await this.sourceService.findAllSourceFiles(
+					this.settings.sourcesFolder
+				)
+			).filter((file) =>
+				refreshTarget(
+					this.app.metadataCache.getFileCache(file)?.frontmatter || {}
+				)
+			);
+
+			container.empty();
+			const progressEl = container.createEl("p", {
+				text: `Looking up ${files.length} sources...`,
+			});
+
+			let done = 0;
+			const lookups = await runWithConcurrency(
+				files,
+				REFRESH_CONCURRENCY,
+				async (file) => {
+					try {
+						const frontmatter =
+							this.app.metadataCache.getFileCache(file)
+								?.frontmatter || {};
+						return diffSourceFields(
+							frontmatter,
+							await fetchRefreshedSource(frontmatter)
+						).filter(
+							(change) =>
+								this.overwrite || isFillingChange(change)
+						);
+					} finally {
+						done++;
+						progressEl.setText(
+							`Looked up ${done} of ${files.length} sources...`
+						);
+					}
+				}
+			);
+
+			const results: RefreshResult[] = [];
+			const failed: { file: TFile; reason: string }[] = [];
+			lookups.forEach((lookup, i) => {
+				if (!lookup.ok) {
+					failed.push({
+						file: files[i],
+						reason:
+							lookup.error instanceof Error
+								? lookup.error.message
+								: "Unknown error",
+					});
+				} else if (lookup.value.length > 0) {
+					results.push({
+						file: files[i],
+						changes: lookup.value,
+						apply: true,
+					});
+				}
+			});
+
+			this.renderReview(container, results, failed);
+		} catch (error) {
+			console.error("Refresh error:", error);
+			new Notice(
+				`Refresh failed: ${
+					error instanceof Error ? error.message : "Unknown error"
+				}`
+			);
+		} finally {
+			this.running = false;
+		}
+	}
+
+	private renderReview(
+		container: HTMLElement,
+		results: RefreshResult[],
+		failed: { file: TFile; reason: string }[]
+	) {
+		container.empty();
+
+		if (results.length === 0) {
+			container.createEl("p", { text: "All sources are up to date." });
+		} else {
+			container.createEl("h3", {
+				text: `${results.length} sources can be updated`,
+			});
+			results.forEach((result) => {
+				new Setting(container)
+					.setName(result.file.basename)
+					.setDesc(
+						result.changes
+							.map((change) =>
+								isFillingChange(change)
+									? `+${change.field}`
+									: `~${change.field}`
+							)
+							.join(", ")
+					)
+					.addToggle((toggle) =>
+						toggle.setValue(result.apply).onChange((value) => {
+							result.apply = value;
+						})
+					);
+			});
+			container.createEl("p", {
+				text: "+ fills an empty field, ~ replaces an existing value",
+				cls: "setting-item-description",
+			});
+		}
+
+		if (failed.length > 0) {
+			container.createEl("h4", { text: "Failed lookups" });
+			const failedList = container.createEl("ul");
+			failed.forEach(({ file, reason }) => {
+				failedList.createEl("li", {
+					text: `${file.basename}: ${reason}`,
+				});
+			});
+		}
+
+		if (results.length === 0) return;
+
+		const buttonContainer = container.createDiv({
+			cls: "import-actions",
+		});
+		const applyButton = buttonContainer.createEl("button", {
+			text: "Update Sources",
+			cls: "mod-cta",
+		});
+		applyButton.onclick = async () => {
+			applyButton.disabled = true;
+			let updated = 0;
+			for (const result of results.filter(({ apply }) => apply)) {
+				try {
+					await this.app.fileManager.processFrontMatter(
+						result.file,
+						(fm) => applyFieldChanges(fm, result.changes)
+					);
+					updated++;
+				} catch (error) {
+					console.error(`Error updating ${result.file.path}:`, error);
+				}
+			}
+			new Notice(`Updated ${updated} sources`);
+			this.close();
+		};
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
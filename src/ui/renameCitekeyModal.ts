@@ -0,0 +1,159 @@
+import { App, Modal, Notice, Setting, TFile } from "obsidian";
+import { SourceService } from "../sourceService";
+import { BibliographySettings } from "../types/settings";
+import { syncAttachment } from "../utils/attachmentFiles";
+
+// Characters Pandoc accepts in a bare @citekey
+const VALID_CITEKEY = /^[A-Za-z0-9_](?:\w|[:.#$%&\-+?<>~/](?=\w))*$/;
+
+/**
+ * Rename a source's citekey and rewrite its citations across the vault after a preview
+ */
+export class RenameCitekeyModal extends Modal {
+	private settings: BibliographySettings;
+	private sourceService: SourceService;
+	private newKey = "";
+	private references: { file: TFile; count: number }[] = [];
+
+	constructor(
+		app: App,
+		settings: BibliographySettings,
+		private sourceFile: TFile,
+		private oldKey: string
+	) {
+		super(app);
+		this.settings = settings;
+		this.sourceService = new SourceService(app, settings);
+		this.newKey = oldKey;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h2", { text: "Rename Citekey" });
+		contentEl.createEl("p", { text: `Current citekey: ${this.oldKey}` });
+
+		new Setting(contentEl)
+			.setName("New citekey")
+			.setDesc("Citations of the old key in all notes are rewritten")
+			.addText((text) =>
+				text.setValue(this.oldKey).onChange((value) => {
+					this.newKey = value.trim();
+					// Any earlier preview is stale now
+					this.references = [];
+					renameButton.disabled = true;
+					previewEl.empty();
+				})
+			);
+
+		const previewEl = contentEl.createDiv({
+			cls: "bibliography-rename-preview",
+		});
+
+		const buttonContainer = contentEl.createDiv({ cls: "import-actions" });
+		const previewButton = buttonContainer.createEl("button", {
+			text: "Preview",
+		});
+		const renameButton = buttonContainer.createEl("button", {
+			text: "Rename",
+			cls: "mod-cta",
+		});
+		renameButton.disabled = true;
+
+		previewButton.onclick = async () => {
+			const error = await this.validate();
+			previewEl.empty();
+			if (error) {
+				previewEl.createEl("p", { text: `⚠️ ${error}` });
+				return;
+			}
+
+			this.references = (
+				await this.sourceService.findCitekeyReferences(this.oldKey)
+			).filter(({ file }) => file.path !== this.sourceFile.path);
+			this.renderPreview(previewEl);
+			renameButton.disabled = false;
+		};
+
+		renameButton.onclick = async () => {
+			try {
+				const rewritten = await this.sourceService.renameCitekey(
+					this.sourceFile,
+					this.oldKey,
+					this.newKey,
+					this.references.map(({ file }) => file)
+				);
+				// Attachments named after the citekey follow it
+				if (this.settings.syncAttachments) {
+					await syncAttachment(
+						this.app,
+						this.settings,
+						this.sourceFile,
+						this.sourceFile.path,
+						{
+							...this.app.metadataCache.getFileCache(
+								this.sourceFile
+							)?.frontmatter,
+							citekey: this.newKey,
+						}
+					);
+				}
+				new Notice(
+					`Renamed ${this.oldKey} to ${this.newKey} (${rewritten} citations in ${this.references.length} files)`
+				);
+				this.close();
+			} catch (error) {
+				console.error("Error renaming citekey:", error);
+				new Notice(
+					`Error renaming citekey: ${
+						error instanceof Error ? error.message : "Unknown error"
+					}`
+				);
+			}
+		};
+	}
+
+	/**
+	 * @returns An error message, or null if the new citekey can be used
+	 */
+	private async validate(): Promise<string | null> {
+		if (!this.newKey) return "Enter a new citekey";
+		if (this.newKey === this.oldKey) return "The citekey is unchanged";
+		if (!VALID_CITEKEY.test(this.newKey)) {
+			return "Citekeys may only contain letters, digits and _ : . # $ % & - + ? < > ~ /";
+		}
+
+		const citekeyIndex = await this.sourceService.getCitekeyIndex(
+			this.settings.sourcesFolder
+		);
+		const existing = citekeyIndex.get(this.newKey);
+		if (existing && existing.path !== this.sourceFile.path) {
+			return `Citekey already used by ${existing.path}`;
+		}
+
+		return null;
+	}
+
+	private renderPreview(previewEl: HTMLElement) {
+		if (this.references.length === 0) {
+			previewEl.createEl("p", {
+				text: "No citations found. Only the source note will change.",
+			});
+			return;
+		}
+
+		const total = this.references.reduce((sum, ref) => sum + ref.count, 0);
+		previewEl.createEl("p", {
+			text: `${total} citations in ${this.references.length} files will be rewritten:`,
+		});
+
+		const list = previewEl.createEl("ul");
+		this.references.forEach(({ file, count }) => {
+			list.createEl("li", { text: `${file.path} (${count})` });
+		});
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
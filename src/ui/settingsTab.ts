@@ -1,7 +1,12 @@
 import BibliographyManagerPlugin from "../main";
 import { App, PluginSettingTab, Setting, Notice } from "obsidian";
 import { FORMAT_EXTENSION_MAPPING } from "../types/interfaces";
-import { DEFAULT_SETTINGS } from "src/types/settings";
+import {
+	BibliographyFormat,
+	CitationFormat,
+	CitekeySuffixScheme,
+	DEFAULT_SETTINGS,
+} from "src/types/settings";
 import { FolderSuggest, TemplateFileSuggest } from "./inputSuggest";
 import { loadTemplateFile } from "src/utils/template";
 
@@ -78,14 +83,13 @@ export class BibliographySettingTab extends PluginSettingTab {
 					.addOption("bibtex", "BibTeX (.bib)")
 					.addOption("csl-json", "CSL JSON (.json)")
 					.addOption("hayagriva", "Hayagriva (.yaml)")
+					.addOption("csl", "Formatted reference list (.md)")
 					.setValue(this.plugin.settings.bibliographyFormat)
 					.onChange(async (value) => {
 						const oldFormat =
 							this.plugin.settings.bibliographyFormat;
-						this.plugin.settings.bibliographyFormat = value as
-							| "bibtex"
-							| "csl-json"
-							| "hayagriva";
+						this.plugin.settings.bibliographyFormat =
+							value as BibliographyFormat;
 
 						// Show warning about filename extension
 						if (oldFormat !== value) {
@@ -124,9 +128,9 @@ export class BibliographySettingTab extends PluginSettingTab {
 		this.filenamePreviewValue = previewValue;
 
 		new Setting(containerEl)
-			.setName("Auto-generate on export")
+			.setName("Auto-generate bibliography")
 			.setDesc(
-				"Automatically generate bibliography when other plugins request it"
+				"Automatically rewrite the bibliography file when notes in the sources folder are created, changed, renamed or deleted"
 			)
 			.addToggle((toggle) =>
 				toggle
@@ -137,6 +141,117 @@ export class BibliographySettingTab extends PluginSettingTab {
 					})
 			);
 
+		containerEl.createEl("h3", { text: "Citekeys" });
+
+		new Setting(containerEl)
+			.setName("Citekey pattern")
+			.setDesc(
+				"Pattern for generated citekeys, e.g. [auth:lower][year][veryshorttitle:lower] gives smith2023deep. Leave empty for the default (Smi23, SmDo23)."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("[auth:lower][year][veryshorttitle:lower]")
+					.setValue(this.plugin.settings.citekeyPattern)
+					.onChange(async (value) => {
+						this.plugin.settings.citekeyPattern = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Duplicate citekey suffix")
+			.setDesc(
+				"Suffix added when a generated citekey is already used by another source"
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("letters", "Letters (Smi23a, Smi23b)")
+					.addOption("numbers", "Numbers (Smi23_2, Smi23_3)")
+					.setValue(this.plugin.settings.citekeySuffixScheme)
+					.onChange(async (value) => {
+						this.plugin.settings.citekeySuffixScheme =
+							value as CitekeySuffixScheme;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		containerEl.createEl("h3", { text: "Citations" });
+
+		new Setting(containerEl)
+			.setName("Citation syntax")
+			.setDesc("Syntax used when inserting citations into notes")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("wikilink", "Wikilink [[@key]]")
+					.addOption("pandoc", "Pandoc [@key]")
+					.addOption("latex", "LaTeX \\cite{key}")
+					.addOption("typst", "Typst @key")
+					.setValue(this.plugin.settings.citationFormat)
+					.onChange(async (value) => {
+						this.plugin.settings.citationFormat =
+							value as CitationFormat;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Citekey autocomplete")
+			.setDesc("Suggest citekeys while typing @ or [@ in the editor")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.enableCitekeySuggest)
+					.onChange(async (value) => {
+						this.plugin.settings.enableCitekeySuggest = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		containerEl.createEl("h3", { text: "Citation Styles" });
+
+		new Setting(containerEl)
+			.setName("CSL styles folder")
+			.setDesc(
+				"Folder with CSL style files (.csl) and locale files (locales-xx-XX.xml) used for formatted reference lists"
+			)
+			.addText((text) => {
+				text.setPlaceholder("csl")
+					.setValue(this.plugin.settings.cslStylesFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.cslStylesFolder = value;
+						await this.plugin.saveSettings();
+					});
+
+				new FolderSuggest(this.app, text.inputEl);
+			});
+
+		new Setting(containerEl)
+			.setName("Default citation style")
+			.setDesc(
+				"Style name (file name without .csl), e.g. apa, ieee, chicago-author-date. Built-in: apa, vancouver, harvard1"
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("apa")
+					.setValue(this.plugin.settings.cslStyle)
+					.onChange(async (value) => {
+						this.plugin.settings.cslStyle = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Citation locale")
+			.setDesc("Locale used for formatted reference lists, e.g. en-US, de-DE")
+			.addText((text) =>
+				text
+					.setPlaceholder("en-US")
+					.setValue(this.plugin.settings.cslLocale)
+					.onChange(async (value) => {
+						this.plugin.settings.cslLocale = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
 		containerEl.createEl("h3", { text: "DOI Import Settings" });
 
 		new Setting(containerEl)
@@ -154,6 +269,80 @@ export class BibliographySettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Hyphenate ISBNs")
+			.setDesc(
+				"Store ISBNs with hyphens between their parts, e.g. 978-0-262-03384-8. ISBNs are always stored as ISBN-13, with the ISBN-10 in isbn10"
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.hyphenateIsbn)
+					.onChange(async (value) => {
+						this.plugin.settings.hyphenateIsbn = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		containerEl.createEl("h3", { text: "Attachments" });
+
+		new Setting(containerEl)
+			.setName("Attachments folder")
+			.setDesc(
+				"Folder for downloaded full texts. Start with ./ for a folder next to each source note, e.g. ./attachments"
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("attachments")
+					.setValue(this.plugin.settings.attachmentsFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.attachmentsFolder = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Attachment filename pattern")
+			.setDesc(
+				"Name for attachment files, using {{citekey}}, {{title}}, {{year}} and {{author}} (first author's family name)"
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("{{citekey}}")
+					.setValue(this.plugin.settings.attachmentFilenamePattern)
+					.onChange(async (value) => {
+						this.plugin.settings.attachmentFilenamePattern = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Download attachments")
+			.setDesc(
+				"Download the full text of imported sources that have a download URL (e.g. arXiv PDFs) and link it in filelink"
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.downloadAttachments)
+					.onChange(async (value) => {
+						this.plugin.settings.downloadAttachments = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Keep attachments with source notes")
+			.setDesc(
+				"When a source note is renamed or moved, or its citekey changes, rename and move its attachment in the attachments folder and update filelink"
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.syncAttachments)
+					.onChange(async (value) => {
+						this.plugin.settings.syncAttachments = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
 		containerEl.createEl("h3", { text: "Source Note Template" });
 
 		new Setting(containerEl)
@@ -0,0 +1,160 @@
+import { ItemView, Notice, TFile, WorkspaceLeaf } from "obsidian";
+import BibliographyManagerPlugin from "../main";
+import {
+	QuickFix,
+	ValidationCandidate,
+	ValidationResult,
+	validateLibrary,
+} from "../utils/validation";
+
+export const VALIDATION_VIEW_TYPE = "bibliography-validation";
+
+interface SourceCandidate extends ValidationCandidate {
+	file: TFile;
+}
+
+/**
+ * Report of source notes with missing fields or invalid identifiers, with click-to-open and quick fixes
+ */
+export class ValidationView extends ItemView {
+	private candidates: SourceCandidate[] = [];
+	private results: ValidationResult<SourceCandidate>[] = [];
+
+	constructor(
+		leaf: WorkspaceLeaf,
+		private plugin: BibliographyManagerPlugin
+	) {
+		super(leaf);
+	}
+
+	getViewType(): string {
+		return VALIDATION_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return "Library Validation";
+	}
+
+	getIcon(): string {
+		return "list-checks";
+	}
+
+	async onOpen() {
+		await this.validate();
+	}
+
+	/**
+	 * Check all source notes and show the report
+	 */
+	async validate() {
+		const files = await this.plugin.sourceService.findAllSourceFiles(
+			this.plugin.settings.sourcesFolder
+		);
+		// Copies, so quick fixes can be re-checked before the metadata cache catches up
+		this.candidates = files.map((file) => ({
+			file,
+			path: file.path,
+			frontmatter: {
+				...(this.app.metadataCache.getFileCache(file)?.frontmatter ||
+					{}),
+			},
+		}));
+		this.results = validateLibrary(this.candidates);
+		this.render();
+	}
+
+	private render() {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass("bibliography-validation");
+
+		const header = container.createDiv({
+			cls: "bibliography-validation-header",
+		});
+		const issueCount = this.results.reduce(
+			(total, { issues }) => total + issues.length,
+			0
+		);
+		header.createEl("p", {
+			text:
+				this.results.length === 0
+					? `All ${this.candidates.length} sources are valid.`
+					: `${issueCount} issues in ${this.results.length} of ${this.candidates.length} sources`,
+		});
+		const rerunButton = header.createEl("button", { text: "Re-run" });
+		rerunButton.onclick = () => this.validate();
+
+		this.results.forEach(({ source, issues }) => {
+			const section = container.createDiv({
+				cls: "bibliography-validation-file",
+			});
+			const title = section.createEl("a", {
+				text: source.file.basename,
+				cls: "bibliography-validation-link",
+			});
+			title.onclick = () =>
+				this.app.workspace.getLeaf(false).openFile(source.file);
+
+			const list = section.createEl("ul");
+			issues.forEach((issue) => {
+				const item = list.createEl("li", {
+					cls: `bibliography-validation-${issue.severity}`,
+				});
+				item.createSpan({
+					text: `${issue.severity === "error" ? "⛔" : "⚠️"} ${
+						issue.message
+					}`,
+				});
+
+				const fix = issue.fix;
+				if (fix) {
+					const fixButton = item.createEl("button", {
+						text: fix.label,
+					});
+					fixButton.onclick = () => this.applyFix(source, fix);
+				}
+			});
+		});
+	}
+
+	private async applyFix(source: SourceCandidate, fix: QuickFix) {
+		try {
+			await this.app.fileManager.processFrontMatter(source.file, (fm) =>
+				fix.apply(fm)
+			);
+			fix.apply(source.frontmatter);
+			this.results = validateLibrary(this.candidates);
+			this.render();
+		} catch (error) {
+			console.error("Error applying fix:", error);
+			new Notice(
+				`Error applying fix: ${
+					error instanceof Error ? error.message : "Unknown error"
+				}`
+			);
+		}
+	}
+}
+
+/**
+ * Open the validation report in the right sidebar, or re-run it if it is already open
+ */
+export async function activateValidationView(
+	plugin: BibliographyManagerPlugin
+) {
+	const { workspace } = plugin.app;
+	let leaf = workspace.getLeavesOfType(VALIDATION_VIEW_TYPE)[0];
+
+	if (leaf) {
+		if (leaf.view instanceof ValidationView) {
+			await leaf.view.validate();
+		}
+	} else {
+		const rightLeaf = workspace.getRightLeaf(false);
+		if (!rightLeaf) return;
+		leaf = rightLeaf;
+		await leaf.setViewState({ type: VALIDATION_VIEW_TYPE, active: true });
+	}
+
+	workspace.revealLeaf(leaf);
+}
@@ -3,6 +3,7 @@ import {
 	BIBLIOGRAPHY_FORMAT_MAPPING,
 	FORMAT_EXTENSION_MAPPING,
 } from "src/types/interfaces";
+import { BibliographyFormat } from "src/types/settings";
 
 // API interface that other plugins can use
 export interface BibliographyAPI {
@@ -12,7 +13,7 @@ export interface BibliographyAPI {
 	 * Export bibliography content from sources
 	 * @param sourcesFolder - Source files folder (defaults to plugin settings)
 	 * @param outputFilename - Output filename (optional, used for format auto-detection)
-	 * @param format - Export format: "bibtex", "csl-json", "hayagriva" (optional, auto-detects if nullish + outputFilename provided)
+	 * @param format - Export format: "bibtex", "csl-json", "hayagriva", "csl" (optional, auto-detects if nullish + outputFilename provided)
 	 * @returns Promise<string> Generated bibliography content
 	 *
 	 * @example
@@ -30,14 +31,14 @@ export interface BibliographyAPI {
 	exportBibliography(
 		sourcesFolder?: string,
 		outputFilename?: string,
-		format?: "bibtex" | "csl-json" | "hayagriva" | ""
+		format?: BibliographyFormat | ""
 	): Promise<string>;
 
 	/**
 	 * Export bibliography to a file in the vault
 	 * @param sourcesFolder Path to folder containing source files (optional, uses plugin setting)
 	 * @param outputFilename Output filename (optional, auto-generated if not provided)
-	 * @param format Output format ('bibtex', 'csl-json', 'hayagriva') (optional, uses plugin setting)
+	 * @param format Output format ('bibtex', 'csl-json', 'hayagriva', 'csl') (optional, uses plugin setting)
 	 * @returns Promise<string> Path to the created file
 	 *
 	 * @example
@@ -55,7 +56,7 @@ export interface BibliographyAPI {
 	exportBibliographyToPath(
 		sourcesFolder?: string,
 		outputFilename?: string,
-		format?: "bibtex" | "csl-json" | "hayagriva" | ""
+		format?: BibliographyFormat | ""
 	): Promise<string>;
 }
 
@@ -84,7 +85,7 @@ export function createAPI(plugin: BibliographyManagerPlugin): BibliographyAPI {
 		exportBibliography: async (
 			sourcesFolder?: string,
 			outputFilename?: string,
-			format?: "bibtex" | "csl-json" | "hayagriva" | ""
+			format?: BibliographyFormat | ""
 		) => {
 			try {
 				const folder = sourcesFolder || this.settings.sourcesFolder;
@@ -99,14 +100,11 @@ export function createAPI(plugin: BibliographyManagerPlugin): BibliographyAPI {
 
 					if (!detectedFormat) {
 						throw new Error(
-							`Unsupported file extension: ${ext}. Supported extensions: .bib, .json, .yaml, .yml`
+							`Unsupported file extension: ${ext}. Supported extensions: .bib, .json, .yaml, .yml, .md`
 						);
 					}
 
-					bibFormat = detectedFormat as
-						| "bibtex"
-						| "csl-json"
-						| "hayagriva";
+					bibFormat = detectedFormat as BibliographyFormat;
 				}
 
 				// Use existing sourceService method
@@ -150,7 +148,7 @@ export function createAPI(plugin: BibliographyManagerPlugin): BibliographyAPI {
 		exportBibliographyToPath: async (
 			sourcesFolder?: string,
 			outputFilename?: string,
-			format?: "bibtex" | "csl-json" | "hayagriva" | ""
+			format?: BibliographyFormat | ""
 		) => {
 			try {
 				// Generate bibliography content using existing function
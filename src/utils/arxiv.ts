@@ -0,0 +1,162 @@
+// arXiv import through the arXiv API (Atom feed)
+import { requestUrl } from "obsidian";
+import { processCitationData } from "./citationData";
+import { parseDate } from "./dates";
+import { arxivDoi, normalizeArxivId } from "./identifiers";
+import { parseName } from "./names";
+import { xmlAttribute, xmlElements, xmlText } from "./xml";
+
+// New-style "2301.12345v2" or old-style "hep-th/9901001" / "math.GT/0309136"
+const ARXIV_ID = /^(\d{4}\.\d{4,5}|[a-z-]+(?:\.[A-Z]{2})?\/\d{7})(v\d+)?$/i;
+
+export interface ArxivEntry {
+	// ID without version, e.g. "2301.12345"
+	id: string;
+	// Latest version, e.g. "v2"
+	version: string;
+	title: string;
+	authors: string[];
+	abstract: string;
+	// ISO timestamps of the first and the latest version
+	published: string;
+	updated: string;
+	primaryCategory: string;
+	categories: string[];
+	absUrl: string;
+	pdfUrl: string;
+	// DOI of the published version, if the authors added one
+	doi: string;
+	journalRef: string;
+	comment: string;
+}
+
+/**
+ * Fetch the response body of a URL, injectable so tests can use recorded responses
+ */
+export type ArxivFetcher = (url: string) => Promise<string>;
+
+export const requestArxiv: ArxivFetcher = async (url) =>
+	(await requestUrl({ url })).text;
+
+/**
+ * Read an arXiv ID from "arXiv:2301.12345", "hep-th/9901001" or an arxiv.org link
+ * @returns The ID including any version, or null if the input is not an arXiv ID
+ */
+export function parseArxivId(input: string): string | null {
+	const id = normalizeArxivId(input);
+	return ARXIV_ID.test(id) ? id : null;
+}
+
+export function arxivApiUrl(id: string): string {
+	return `https://export.arxiv.org/api/query?id_list=${encodeURIComponent(
+		id
+	)}`;
+}
+
+/**
+ * Parse the first entry of an arXiv API response
+ */
+export function parseArxivAtom(xml: string): ArxivEntry {
+	const entry = xmlElements(xml, "entry")[0];
+	const entryId = entry ? xmlText(entry, "id") : "";
+
+	// Invalid IDs come back as an entry titled "Error" with the reason as summary
+	if (entryId.includes("arxiv.org/api/errors")) {
+		throw new Error(`arXiv: ${xmlText(entry, "summary") || "invalid ID"}`);
+	}
+	if (!entry || !xmlText(entry, "title")) {
+		throw new Error("No arXiv entry found for this ID");
+	}
+
+	const [, id = "", version = ""] =
+		entryId.match(/arxiv\.org\/abs\/(.+?)(v\d+)?$/) || [];
+	const links = xmlElements(entry, "link");
+	const linkHref = (predicate: (link: string) => boolean) => {
+		const link = links.find(predicate);
+		return link ? xmlAttribute(link, "href") : "";
+	};
+
+	return {
+		id,
+		version,
+		title: xmlText(entry, "title"),
+		authors: xmlElements(entry, "author").map((author) =>
+			xmlText(author, "name")
+		),
+		abstract: xmlText(entry, "summary"),
+		published: xmlText(entry, "published"),
+		updated: xmlText(entry, "updated"),
+		primaryCategory: xmlAttribute(
+			xmlElements(entry, "arxiv:primary_category")[0] || "",
+			"term"
+		),
+		categories: xmlElements(entry, "category").map((category) =>
+			xmlAttribute(category, "term")
+		),
+		absUrl:
+			linkHref((link) => xmlAttribute(link, "rel") === "alternate") ||
+			entryId,
+		pdfUrl: linkHref((link) => xmlAttribute(link, "title") === "pdf"),
+		doi: xmlText(entry, "arxiv:doi"),
+		journalRef: xmlText(entry, "arxiv:journal_ref"),
+		comment: xmlText(entry, "arxiv:comment"),
+	};
+}
+
+/**
+ * Convert an arXiv entry to source data through the shared citation pipeline
+ * The published DOI is used when arXiv lists one, otherwise the arXiv DOI
+ */
+export function arxivEntryToSourceData(
+	entry: ArxivEntry,
+	mediaType: string,
+	citekeyPattern = ""
+): Record<string, unknown> {
+	const citationData = {
+		type: "article",
+		title: entry.title,
+		author: entry.authors.map((name) => parseName(name)),
+		abstract: entry.abstract,
+		issued: parseDate(entry.published.slice(0, 10)),
+		publisher: "arXiv",
+		URL: entry.absUrl,
+		DOI: entry.doi || arxivDoi(entry.id),
+		keyword: entry.primaryCategory ? [entry.primaryCategory] : undefined,
+	};
+
+	const sourceData: Record<string, unknown> = {};
+	processCitationData(
+		citationData,
+		sourceData,
+		mediaType,
+		"arxiv",
+		citekeyPattern
+	);
+
+	sourceData.arxiv = entry.id;
+	sourceData.version = entry.version;
+	sourceData.downloadurl = entry.pdfUrl;
+	return sourceData;
+}
+
+/**
+ * Look up an arXiv ID or link and convert it to source data
+ */
+export async function fetchArxivSource(
+	input: string,
+	mediaType: string,
+	citekeyPattern = "",
+	fetcher: ArxivFetcher = requestArxiv
+): Promise<Record<string, unknown>> {
+	const id = parseArxivId(input);
+	if (!id) {
+		throw new Error(`Not an arXiv ID: ${input}`);
+	}
+
+	const xml = await fetcher(arxivApiUrl(id));
+	return arxivEntryToSourceData(
+		parseArxivAtom(xml),
+		mediaType,
+		citekeyPattern
+	);
+}
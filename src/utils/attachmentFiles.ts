@@ -0,0 +1,321 @@
+// Attachment files of source notes: download, naming and keeping them next to their note
+import {
+	App,
+	Notice,
+	TAbstractFile,
+	TFile,
+	TFolder,
+	normalizePath,
+	requestUrl,
+} from "obsidian";
+import BibliographyManagerPlugin from "src/main";
+import { BibliographySettings } from "../types/settings";
+import { CitekeyGenerator } from "./citekey";
+import { familyName, parseNameList } from "./names";
+
+export type AttachmentSettings = Pick<
+	BibliographySettings,
+	| "attachmentsFolder"
+	| "attachmentFilenamePattern"
+	| "downloadAttachments"
+	| "syncAttachments"
+>;
+
+/**
+ * Source fields available to attachment filename patterns
+ */
+export interface AttachmentNameSource {
+	citekey?: string;
+	title?: string;
+	year?: string | number;
+	author?: string[] | string;
+}
+
+// Extensions for the content types servers send with full texts
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+	"application/pdf": "pdf",
+	"application/epub+zip": "epub",
+	"text/html": "html",
+	"text/plain": "txt",
+};
+
+/**
+ * Fill an attachment filename pattern like "{{citekey}} - {{title}}"
+ * Variables: {{citekey}}, {{title}}, {{year}}, {{author}} (family name of the first author)
+ * Falls back to the citekey when the pattern yields nothing
+ */
+export function formatAttachmentFilename(
+	pattern: string,
+	source: AttachmentNameSource
+): string {
+	const firstAuthor = parseNameList(source.author)[0];
+	const values: Record<string, string> = {
+		citekey: String(source.citekey || ""),
+		title: String(source.title || ""),
+		year: String(source.year || ""),
+		author: firstAuthor ? familyName(firstAuthor) : "",
+	};
+
+	const name = (pattern || "{{citekey}}")
+		.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, variable: string) =>
+			CitekeyGenerator.sanitizeFilename(values[variable] || "")
+		)
+		.replace(/[<>:"/\\|?*#^[\]]/g, "")
+		.replace(/\s+/g, " ")
+		.trim();
+	return name || CitekeyGenerator.sanitizeFilename(values.citekey);
+}
+
+/**
+ * Folder for the attachments of a source note
+ * A setting starting with "./" is relative to the note's folder, like Obsidian's own attachment setting
+ */
+export function resolveAttachmentFolder(
+	attachmentsFolder: string,
+	notePath: string
+): string {
+	const setting = (attachmentsFolder || "").trim();
+	const noteFolder = notePath.split("/").slice(0, -1).join("/");
+	if (!setting.startsWith(".")) {
+		return setting.replace(/^\/+|\/+$/g, "");
+	}
+
+	const parts = noteFolder ? noteFolder.split("/") : [];
+	setting.split("/").forEach((part) => {
+		if (part === "..") parts.pop();
+		else if (part && part !== ".") parts.push(part);
+	});
+	return parts.join("/");
+}
+
+/**
+ * File extension of a download from its content type, falling back to the URL
+ */
+export function attachmentExtension(url: string, contentType = ""): string {
+	const type = contentType.split(";")[0].trim().toLowerCase();
+	if (CONTENT_TYPE_EXTENSIONS[type]) return CONTENT_TYPE_EXTENSIONS[type];
+
+	const path = url.split(/[?#]/)[0];
+	const extension = path.match(/\.([a-z0-9]{2,5})$/i);
+	return extension ? extension[1].toLowerCase() : "pdf";
+}
+
+/**
+ * Vault path in a filelink value: "[[path|alias]]", "[alias](path)" or a plain path
+ */
+export function parseFileLink(value: unknown): string | null {
+	const text = String(value || "").trim();
+	if (!text) return null;
+
+	const wikilink = text.match(
+		/^!?\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|[^\]]*)?\]\]$/
+	);
+	if (wikilink) return wikilink[1].trim();
+
+	const markdownLink = text.match(/^!?\[[^\]]*\]\(<?([^)>]+)>?\)$/);
+	if (markdownLink) return decodeURI(markdownLink[1].trim());
+
+	return /^[a-z]+:\/\//i.test(text) ? null : text;
+}
+
+/**
+ * Frontmatter value linking a note to its attachment
+ * Full paths keep the link valid wherever the note is moved
+ */
+export function attachmentLink(file: { path: string }): string {
+	return `[[${file.path}]]`;
+}
+
+function joinPath(folder: string, name: string): string {
+	return folder ? `${folder}/${name}` : name;
+}
+
+/**
+ * First path in the folder that is free or already taken by the file itself
+ */
+function availablePath(
+	app: App,
+	folder: string,
+	basename: string,
+	extension: string,
+	self?: TFile
+): string {
+	let path = joinPath(folder, `${basename}.${extension}`);
+	for (let i = 2; ; i++) {
+		const existing = app.vault.getAbstractFileByPath(path);
+		if (!existing || existing === self) return path;
+		path = joinPath(folder, `${basename} ${i}.${extension}`);
+	}
+}
+
+async function ensureFolder(app: App, folder: string): Promise<void> {
+	if (
+		folder &&
+		!(app.vault.getAbstractFileByPath(folder) instanceof TFolder)
+	) {
+		await app.vault.createFolder(folder);
+	}
+}
+
+/**
+ * Download a source's full text into the attachments folder
+ * @param notePath - Path of the source note, for folders relative to it
+ * @returns The created file
+ */
+export async function downloadAttachment(
+	app: App,
+	settings: AttachmentSettings,
+	url: string,
+	notePath: string,
+	source: AttachmentNameSource
+): Promise<TFile> {
+	const response = await requestUrl({ url });
+	const contentType =
+		response.headers["content-type"] || response.headers["Content-Type"];
+	const folder = resolveAttachmentFolder(
+		settings.attachmentsFolder,
+		notePath
+	);
+	await ensureFolder(app, folder);
+
+	const path = availablePath(
+		app,
+		folder,
+		formatAttachmentFilename(settings.attachmentFilenamePattern, source),
+		attachmentExtension(url, contentType)
+	);
+	return app.vault.createBinary(path, response.arrayBuffer);
+}
+
+/**
+ * Download `downloadurl` for a source that is about to be created and set its `filelink`
+ * Failed downloads are reported but do not stop the import
+ */
+export async function attachDownload(
+	app: App,
+	settings: AttachmentSettings,
+	sourceData: AttachmentNameSource & {
+		downloadurl?: string;
+		filelink?: string;
+	},
+	notePath: string
+): Promise<void> {
+	if (
+		!settings.downloadAttachments ||
+		!sourceData.downloadurl ||
+		sourceData.filelink
+	) {
+		return;
+	}
+
+	try {
+		const file = await downloadAttachment(
+			app,
+			settings,
+			sourceData.downloadurl,
+			notePath,
+			sourceData
+		);
+		sourceData.filelink = attachmentLink(file);
+	} catch (error) {
+		console.warn("Attachment download failed:", error);
+		new Notice(
+			`Could not download attachment: ${
+				error instanceof Error ? error.message : "Unknown error"
+			}`
+		);
+	}
+}
+
+/**
+ * Rename and move a source note's attachment to match the note, then relink it
+ * Only attachments in the note's attachments folder are moved; files elsewhere are just relinked
+ * @param oldNotePath - Where the note was before it was moved, if it was
+ * @param fields - Current frontmatter, if the metadata cache may not have caught up yet
+ * @returns The attachment, or null if the note has none
+ */
+export async function syncAttachment(
+	app: App,
+	settings: AttachmentSettings,
+	noteFile: TFile,
+	oldNotePath = noteFile.path,
+	fields?: Record<string, unknown>
+): Promise<TFile | null> {
+	const frontmatter =
+		fields || app.metadataCache.getFileCache(noteFile)?.frontmatter;
+	const linkPath = parseFileLink(frontmatter?.filelink);
+	if (!linkPath) return null;
+
+	const attachment =
+		app.metadataCache.getFirstLinkpathDest(linkPath, noteFile.path) ||
+		app.metadataCache.getFirstLinkpathDest(linkPath, oldNotePath);
+	if (!attachment) return null;
+
+	const oldFolder = resolveAttachmentFolder(
+		settings.attachmentsFolder,
+		oldNotePath
+	);
+	if (attachment.parent?.path === (oldFolder || "/")) {
+		const folder = resolveAttachmentFolder(
+			settings.attachmentsFolder,
+			noteFile.path
+		);
+		const newPath = availablePath(
+			app,
+			folder,
+			formatAttachmentFilename(
+				settings.attachmentFilenamePattern,
+				frontmatter || {}
+			),
+			attachment.extension,
+			attachment
+		);
+		if (newPath !== attachment.path) {
+			await ensureFolder(app, folder);
+			await app.fileManager.renameFile(attachment, newPath);
+		}
+	}
+
+	const link = attachmentLink(attachment);
+	if (frontmatter?.filelink !== link) {
+		await app.fileManager.processFrontMatter(noteFile, (fm) => {
+			fm.filelink = link;
+		});
+	}
+	return attachment;
+}
+
+/**
+ * Keep attachments with their source notes when notes are renamed or moved
+ * Only active while the syncAttachments setting is enabled
+ */
+export function registerAttachmentSync(plugin: BibliographyManagerPlugin) {
+	const handleRename = async (file: TAbstractFile, oldPath: string) => {
+		if (!plugin.settings.syncAttachments) return;
+		if (!(file instanceof TFile) || file.extension !== "md") return;
+
+		const sourcesFolder = `${normalizePath(
+			plugin.settings.sourcesFolder
+		)}/`;
+		if (
+			!file.path.startsWith(sourcesFolder) &&
+			!oldPath.startsWith(sourcesFolder)
+		) {
+			return;
+		}
+
+		try {
+			await syncAttachment(plugin.app, plugin.settings, file, oldPath);
+		} catch (error) {
+			console.error("Error moving attachment with source note:", error);
+		}
+	};
+
+	plugin.app.workspace.onLayoutReady(() => {
+		plugin.registerEvent(
+			plugin.app.vault.on("rename", (file, oldPath) =>
+				handleRename(file, oldPath)
+			)
+		);
+	});
+}
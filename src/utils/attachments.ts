@@ -0,0 +1,397 @@
+// Embedded metadata of PDF and EPUB attachments (PDF Info/XMP, EPUB OPF) for offline import
+import { App, TFile, loadPdfJs } from "obsidian";
+import { processCitationData } from "./citationData";
+import { formatDate, parseDate } from "./dates";
+import { extractIdentifiers, normalizeDoi, normalizeIsbn } from "./identifiers";
+import { parseName } from "./names";
+import { xmlAttribute, xmlElements, xmlText } from "./xml";
+import { RawInflater, inflateRaw, readZipText } from "./zip";
+
+// Pages of a PDF and content documents of an EPUB that are scanned for a DOI or ISBN
+const SCANNED_PAGES = 3;
+
+export interface AttachmentMetadata {
+	title?: string;
+	// Names as found, e.g. "Jane Doe" or "Doe, Jane"
+	author: string[];
+	editor: string[];
+	translator: string[];
+	// EDTF date, e.g. "2009-07-31"
+	date?: string;
+	publisher?: string;
+	language?: string;
+	abstract?: string;
+	keywords: string[];
+	doi?: string;
+	isbn?: string;
+}
+
+export interface AttachmentContent {
+	metadata: AttachmentMetadata;
+	// Text of the first pages, for finding identifiers
+	text: string;
+}
+
+function emptyMetadata(): AttachmentMetadata {
+	return { author: [], editor: [], translator: [], keywords: [] };
+}
+
+// Titles that PDF producers fill in instead of the document title
+const PLACEHOLDER_TITLE =
+	/^(?:untitled|microsoft word - .*|.*\.(?:docx?|odt|tex|dvi|pdf|indd))$/i;
+
+/**
+ * Split an author field like "Jane Doe; John Smith", "Jane Doe and John Smith"
+ * or "Jane Doe, John Smith" without breaking up "Doe, Jane"
+ */
+export function splitNames(value: unknown): string[] {
+	const text = String(value || "").trim();
+	if (!text) return [];
+
+	const parts = text.split(/\s*(?:;|\band\b|&)\s*/);
+	if (parts.length > 1) return parts.filter((part) => part);
+
+	const commaParts = text.split(/\s*,\s*/);
+	return commaParts.length > 1 && commaParts.every((part) => /\s/.test(part))
+		? commaParts
+		: [text];
+}
+
+function splitKeywords(value: unknown): string[] {
+	return String(value || "")
+		.split(/\s*[;,]\s*/)
+		.filter((keyword) => keyword);
+}
+
+/**
+ * Fill the empty fields of the first metadata from the following ones
+ */
+export function mergeMetadata(
+	...sources: AttachmentMetadata[]
+): AttachmentMetadata {
+	const result = emptyMetadata();
+	sources.forEach((source) => {
+		(Object.keys(source) as (keyof AttachmentMetadata)[]).forEach((key) => {
+			const current = result[key];
+			const incoming = source[key];
+			const isEmpty = Array.isArray(current)
+				? current.length === 0
+				: !current;
+			if (isEmpty && incoming && incoming.length > 0) {
+				Object.assign(result, { [key]: incoming });
+			}
+		});
+	});
+	return result;
+}
+
+/**
+ * Read the Info dictionary of a PDF, as returned by pdf.js
+ */
+export function parsePdfInfo(
+	info: Record<string, unknown>
+): AttachmentMetadata {
+	const metadata = emptyMetadata();
+	const title = String(info?.Title || "").trim();
+	if (title && !PLACEHOLDER_TITLE.test(title)) metadata.title = title;
+	metadata.author = splitNames(info?.Author);
+	metadata.keywords = splitKeywords(info?.Keywords);
+	return metadata;
+}
+
+/**
+ * Simple XMP properties are elements or attributes of rdf:Description
+ */
+function xmpProperty(xmp: string, name: string): string {
+	const text = xmlText(xmp, name);
+	if (text) return text;
+	for (const description of xmlElements(xmp, "rdf:Description")) {
+		const value = xmlAttribute(description, name);
+		if (value) return value.trim();
+	}
+	return "";
+}
+
+function xmpList(xmp: string, name: string): string[] {
+	const element = xmlElements(xmp, name)[0];
+	if (!element) return [];
+	const items = xmlElements(element, "rdf:li").map((li) =>
+		xmlText(li, "rdf:li")
+	);
+	return items.length > 0 ? items : [xmlText(element, name)];
+}
+
+/**
+ * Read Dublin Core and PRISM properties from an XMP packet
+ */
+export function parseXmp(xmp: string): AttachmentMetadata {
+	const metadata = emptyMetadata();
+	if (!xmp) return metadata;
+
+	const title = xmpList(xmp, "dc:title")[0];
+	if (title && !PLACEHOLDER_TITLE.test(title)) metadata.title = title;
+	metadata.author = xmpList(xmp, "dc:creator").filter((name) => name);
+	metadata.abstract = xmpList(xmp, "dc:description")[0] || undefined;
+	metadata.publisher = xmpList(xmp, "dc:publisher")[0] || undefined;
+	metadata.keywords = xmpList(xmp, "dc:subject").filter((k) => k);
+	if (metadata.keywords.length === 0) {
+		metadata.keywords = splitKeywords(xmpProperty(xmp, "pdf:Keywords"));
+	}
+
+	const date =
+		xmpProperty(xmp, "prism:publicationDate") ||
+		xmpProperty(xmp, "prism:coverDate") ||
+		xmpList(xmp, "dc:date")[0];
+	if (date) metadata.date = normalizeDateText(date) || undefined;
+
+	const identifiers = extractIdentifiers(
+		[
+			xmpProperty(xmp, "prism:doi"),
+			xmpProperty(xmp, "pdfx:doi"),
+			xmpProperty(xmp, "crossmark:DOI"),
+			xmpProperty(xmp, "prism:isbn"),
+			...xmpList(xmp, "dc:identifier"),
+		].join("\n")
+	);
+	metadata.doi = identifiers.find((id) => id.type === "doi")?.value;
+	metadata.isbn = identifiers.find((id) => id.type === "isbn")?.value;
+
+	return metadata;
+}
+
+// "2009-07-31T00:00:00Z" -> "2009-07-31"; dates in other notations are dropped
+function normalizeDateText(text: string): string {
+	const date = parseDate(text.trim().slice(0, 10));
+	return date && !date.literal ? formatDate(date) : "";
+}
+
+/**
+ * Read the Dublin Core metadata of an EPUB package document
+ */
+export function parseOpf(opf: string): AttachmentMetadata {
+	const metadata = emptyMetadata();
+	const block = xmlElements(opf, "metadata")[0] || opf;
+
+	metadata.title = xmlText(block, "dc:title") || undefined;
+	metadata.publisher = xmlText(block, "dc:publisher") || undefined;
+	metadata.language = xmlText(block, "dc:language") || undefined;
+	metadata.abstract = xmlText(block, "dc:description") || undefined;
+	metadata.keywords = xmlElements(block, "dc:subject").map((subject) =>
+		xmlText(subject, "dc:subject")
+	);
+
+	const date = xmlText(block, "dc:date");
+	if (date) metadata.date = normalizeDateText(date) || undefined;
+
+	// EPUB 2 puts the role on the creator, EPUB 3 in a <meta refines="#id">
+	const refinedRoles: Record<string, string> = {};
+	xmlElements(block, "meta").forEach((meta) => {
+		if (xmlAttribute(meta, "property") === "role") {
+			refinedRoles[xmlAttribute(meta, "refines").replace(/^#/, "")] =
+				xmlText(meta, "meta");
+		}
+	});
+
+	xmlElements(block, "dc:creator").forEach((creator) => {
+		const role =
+			xmlAttribute(creator, "opf:role") ||
+			refinedRoles[xmlAttribute(creator, "id")] ||
+			"aut";
+		// "Doe, Jane" sorts and parses better than "Jane Doe"
+		const name =
+			xmlAttribute(creator, "opf:file-as") ||
+			xmlText(creator, "dc:creator");
+		if (!name) return;
+		if (role === "edt") metadata.editor.push(name);
+		else if (role === "trl") metadata.translator.push(name);
+		else if (role === "aut") metadata.author.push(name);
+	});
+
+	const identifiers = extractIdentifiers(
+		xmlElements(block, "dc:identifier")
+			.map((identifier) =>
+				xmlText(identifier, "dc:identifier").replace(
+					/^urn:(?:isbn|doi):/i,
+					""
+				)
+			)
+			.join("\n")
+	);
+	metadata.doi = identifiers.find((id) => id.type === "doi")?.value;
+	metadata.isbn = identifiers.find((id) => id.type === "isbn")?.value;
+
+	return metadata;
+}
+
+function htmlToText(html: string): string {
+	return html
+		.replace(/<(script|style)[\s\S]*?<\/\1>/gi, " ")
+		.replace(/<[^>]+>/g, " ")
+		.replace(/&nbsp;/g, " ")
+		.replace(/\s+/g, " ");
+}
+
+function resolvePath(base: string, href: string): string {
+	const parts = base ? base.split("/") : [];
+	decodeURIComponent(href.split("#")[0])
+		.split("/")
+		.forEach((part) => {
+			if (part === "..") parts.pop();
+			else if (part && part !== ".") parts.push(part);
+		});
+	return parts.join("/");
+}
+
+/**
+ * Read the package metadata and the text of the first content documents of an EPUB
+ */
+export async function readEpub(
+	data: Uint8Array,
+	inflater: RawInflater = inflateRaw
+): Promise<AttachmentContent> {
+	const container = await readZipText(
+		data,
+		"META-INF/container.xml",
+		inflater
+	);
+	const opfPath = container
+		? xmlAttribute(xmlElements(container, "rootfile")[0] || "", "full-path")
+		: "";
+	const opf = opfPath ? await readZipText(data, opfPath, inflater) : null;
+	if (!opf) {
+		throw new Error("Not an EPUB: package document not found");
+	}
+
+	const opfFolder = opfPath.split("/").slice(0, -1).join("/");
+	const manifest: Record<string, string> = {};
+	xmlElements(opf, "item").forEach((item) => {
+		manifest[xmlAttribute(item, "id")] = xmlAttribute(item, "href");
+	});
+
+	// Title and copyright pages come first in reading order
+	const texts: string[] = [];
+	for (const itemref of xmlElements(opf, "itemref").slice(
+		0,
+		SCANNED_PAGES + 2
+	)) {
+		const href = manifest[xmlAttribute(itemref, "idref")];
+		if (!href) continue;
+		const html = await readZipText(
+			data,
+			resolvePath(opfFolder, href),
+			inflater
+		);
+		if (html) texts.push(htmlToText(html));
+	}
+
+	return { metadata: parseOpf(opf), text: texts.join("\n") };
+}
+
+/**
+ * Read the Info dictionary, XMP packet and first pages of a PDF with Obsidian's pdf.js
+ */
+export async function readPdf(data: ArrayBuffer): Promise<AttachmentContent> {
+	const pdfjs = await loadPdfJs();
+	const doc = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+
+	try {
+		const { info, metadata } = await doc.getMetadata();
+		const xmp = metadata?.getRaw ? String(metadata.getRaw() || "") : "";
+
+		// The Subject often holds the citation, e.g. "Journal 12 (2020) 1-10. doi:10.1016/..."
+		const texts: string[] = [String(info?.Subject || "")];
+		for (let i = 1; i <= Math.min(SCANNED_PAGES, doc.numPages); i++) {
+			const page = await doc.getPage(i);
+			const content = await page.getTextContent();
+			texts.push(content.items.map((item: { str?: string }) => item.str).join(" "));
+		}
+
+		return {
+			metadata: mergeMetadata(parseXmp(xmp), parsePdfInfo(info)),
+			text: texts.join("\n"),
+		};
+	} finally {
+		doc.destroy();
+	}
+}
+
+/**
+ * Read the embedded metadata and first pages of a PDF, EPUB or plain text attachment
+ */
+export async function readAttachment(
+	app: App,
+	file: TFile
+): Promise<AttachmentContent> {
+	switch (file.extension.toLowerCase()) {
+		case "pdf":
+			return readPdf(await app.vault.readBinary(file));
+		case "epub":
+			return readEpub(new Uint8Array(await app.vault.readBinary(file)));
+		default:
+			return {
+				metadata: emptyMetadata(),
+				text: await app.vault.read(file),
+			};
+	}
+}
+
+/**
+ * Combine embedded metadata with the first DOI and ISBN found in the text
+ * Embedded identifiers win, since the first pages may also cite other works
+ */
+export function completeIdentifiers(
+	content: AttachmentContent
+): AttachmentMetadata {
+	const identifiers = extractIdentifiers(content.text);
+	return {
+		...content.metadata,
+		doi:
+			content.metadata.doi ||
+			identifiers.find((id) => id.type === "doi")?.value,
+		isbn:
+			content.metadata.isbn ||
+			identifiers.find((id) => id.type === "isbn")?.value,
+	};
+}
+
+/**
+ * Convert attachment metadata to source data through the shared citation pipeline
+ * The note links back to the attachment in `filelink`
+ */
+export function attachmentToSourceData(
+	metadata: AttachmentMetadata,
+	file: { path: string; basename: string; extension: string },
+	mediaType: string,
+	citekeyPattern = ""
+): Record<string, unknown> {
+	const isBook =
+		file.extension.toLowerCase() === "epub" ||
+		Boolean(metadata.isbn && !metadata.doi);
+
+	const citationData: Record<string, unknown> = {
+		type: isBook ? "book" : metadata.doi ? "article-journal" : "document",
+		title: metadata.title || file.basename,
+		author: metadata.author.map((name) => parseName(name)),
+		editor: metadata.editor.map((name) => parseName(name)),
+		translator: metadata.translator.map((name) => parseName(name)),
+		abstract: metadata.abstract,
+		publisher: metadata.publisher,
+		language: metadata.language,
+		DOI: metadata.doi ? normalizeDoi(metadata.doi) : undefined,
+		ISBN: metadata.isbn ? normalizeIsbn(metadata.isbn) : undefined,
+		keyword: metadata.keywords.length > 0 ? metadata.keywords : undefined,
+	};
+	const issued = parseDate(metadata.date);
+	if (issued) citationData.issued = issued;
+
+	const sourceData: Record<string, unknown> = {};
+	processCitationData(
+		citationData,
+		sourceData,
+		mediaType,
+		isBook ? "isbn" : "doi",
+		citekeyPattern
+	);
+	sourceData.filelink = `[[${file.path}]]`;
+	return sourceData;
+}
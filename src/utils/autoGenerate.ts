@@ -0,0 +1,93 @@
+import { TAbstractFile, TFile, debounce, normalizePath } from "obsidian";
+import BibliographyManagerPlugin from "src/main";
+import { getBibliographyOutputPath } from "./sources";
+
+// Wait for a burst of edits to settle before rewriting the bibliography file
+const AUTO_GENERATE_DELAY_MS = 2000;
+
+/**
+ * Watch source notes and rewrite the bibliography file when they change
+ * Only active while the autoGenerate setting is enabled
+ */
+export function registerAutoGenerate(plugin: BibliographyManagerPlugin) {
+	const regenerate = debounce(
+		() => regenerateBibliographyFile(plugin),
+		AUTO_GENERATE_DELAY_MS,
+		true
+	);
+
+	const handleChange = (file: TAbstractFile, oldPath?: string) => {
+		if (!plugin.settings.autoGenerate) return;
+		if (!(file instanceof TFile) || file.extension !== "md") return;
+		// Writing a formatted bibliography into the sources folder must not trigger another run
+		if (
+			file.path === normalizePath(getBibliographyOutputPath(plugin.settings))
+		) {
+			return;
+		}
+
+		if (
+			isInSourcesFolder(plugin, file.path) ||
+			(oldPath && isInSourcesFolder(plugin, oldPath))
+		) {
+			regenerate();
+		}
+	};
+
+	// Vault emits "create" for every file while loading, so start watching once the layout is ready
+	plugin.app.workspace.onLayoutReady(() => {
+		plugin.registerEvent(
+			plugin.app.vault.on("modify", (file) => handleChange(file))
+		);
+		plugin.registerEvent(
+			plugin.app.vault.on("create", (file) => handleChange(file))
+		);
+		plugin.registerEvent(
+			plugin.app.vault.on("delete", (file) => handleChange(file))
+		);
+		plugin.registerEvent(
+			plugin.app.vault.on("rename", (file, oldPath) =>
+				handleChange(file, oldPath)
+			)
+		);
+	});
+}
+
+function isInSourcesFolder(
+	plugin: BibliographyManagerPlugin,
+	path: string
+): boolean {
+	const sourcesFolder = normalizePath(plugin.settings.sourcesFolder);
+	return path.startsWith(`${sourcesFolder}/`);
+}
+
+/**
+ * Regenerate the configured bibliography file, leaving it untouched if the content did not change
+ */
+async function regenerateBibliographyFile(plugin: BibliographyManagerPlugin) {
+	try {
+		const bibPath = normalizePath(
+			getBibliographyOutputPath(plugin.settings)
+		);
+		const bibContent = await plugin.sourceService.generateBibliography(
+			plugin.settings.sourcesFolder,
+			plugin.settings.bibliographyFormat
+		);
+
+		const adapter = plugin.app.vault.adapter;
+		if (await adapter.exists(bibPath)) {
+			const existingContent = await adapter.read(bibPath);
+			if (existingContent === bibContent) return;
+		}
+
+		const outputFolder = bibPath.substring(0, bibPath.lastIndexOf("/"));
+		if (outputFolder && !(await adapter.exists(outputFolder))) {
+			await adapter.mkdir(outputFolder);
+		}
+
+		// An empty sources folder gives an empty bibliography, not a stale one
+		await adapter.write(bibPath, bibContent);
+	} catch (error) {
+		console.error("Auto-generate: failed to regenerate bibliography:", error);
+	}
+}
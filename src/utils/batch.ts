@@ -0,0 +1,92 @@
+// Concurrency and retry helpers for resolving many identifiers against remote services
+
+export interface RetryOptions {
+	// Attempts after the first one
+	retries: number;
+	// Delay before the first retry, doubled for every further retry
+	baseDelayMs: number;
+	shouldRetry?: (error: unknown) => boolean;
+}
+
+export type BatchResult<R> =
+	| { ok: true; value: R }
+	| { ok: false; error: unknown };
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+	retries: 2,
+	baseDelayMs: 1000,
+	shouldRetry: isTransientError,
+};
+
+/**
+ * Rate limits, server errors and network failures are worth retrying;
+ * "not found" and parse errors are not
+ */
+export function isTransientError(error: unknown): boolean {
+	const status = (error as { status?: unknown } | null)?.status;
+	if (typeof status === "number") {
+		return status === 429 || status >= 500;
+	}
+	const message = error instanceof Error ? error.message : String(error);
+	return /network|fetch|timed? ?out|ECONNRESET|ETIMEDOUT/i.test(message);
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Call fn until it succeeds, waiting baseDelayMs, 2 * baseDelayMs, ... between attempts
+ */
+export async function withRetry<T>(
+	fn: () => Promise<T>,
+	options: RetryOptions = DEFAULT_RETRY_OPTIONS
+): Promise<T> {
+	const shouldRetry = options.shouldRetry || isTransientError;
+
+	for (let attempt = 0; ; attempt++) {
+		try {
+			return await fn();
+		} catch (error) {
+			if (attempt >= options.retries || !shouldRetry(error)) {
+				throw error;
+			}
+			await sleep(options.baseDelayMs * Math.pow(2, attempt));
+		}
+	}
+}
+
+/**
+ * Run worker for every item with at most `limit` calls in flight
+ * Results keep the order of items; failures are returned instead of thrown
+ */
+export async function runWithConcurrency<T, R>(
+	items: T[],
+	limit: number,
+	worker: (item: T, index: number) => Promise<R>
+): Promise<BatchResult<R>[]> {
+	const results: BatchResult<R>[] = new Array(items.length);
+	let next = 0;
+
+	const runNext = async (): Promise<void> => {
+		while (next < items.length) {
+			const index = next++;
+			try {
+				results[index] = {
+					ok: true,
+					value: await worker(items[index], index),
+				};
+			} catch (error) {
+				results[index] = { ok: false, error };
+			}
+		}
+	};
+
+	const runners = [];
+	for (let i = 0; i < Math.max(1, Math.min(limit, items.length)); i++) {
+		runners.push(runNext());
+	}
+	await Promise.all(runners);
+
+	return results;
+}
@@ -0,0 +1,97 @@
+// Options, filters and sorting of ```bibliography code blocks
+import { DATE_FIELDS, dateSortKey } from "./dates";
+import { NAME_ROLES, nameSortKey, parseNameList } from "./names";
+
+export interface BibliographyBlockOptions {
+	style?: string;
+	scope: "current-note" | "folder" | "tag";
+	folder?: string;
+	tag?: string;
+	sort?: string;
+	filter?: string | Record<string, unknown>;
+}
+
+const SCOPES = ["current-note", "folder", "tag"];
+
+/**
+ * Read the options of a bibliography code block from its parsed YAML
+ * Unknown scopes fall back to "current-note"
+ */
+export function parseBlockOptions(raw: unknown): BibliographyBlockOptions {
+	const options: Record<string, unknown> =
+		raw && typeof raw === "object" ? { ...raw } : {};
+	const scope = String(options.scope);
+
+	return {
+		style: options.style ? String(options.style) : undefined,
+		scope: SCOPES.includes(scope)
+			? (scope as BibliographyBlockOptions["scope"])
+			: "current-note",
+		folder: options.folder ? String(options.folder) : undefined,
+		tag: options.tag ? String(options.tag).replace(/^#/, "") : undefined,
+		sort: options.sort ? String(options.sort) : undefined,
+		filter: options.filter as BibliographyBlockOptions["filter"],
+	};
+}
+
+function asText(value: unknown): string {
+	return (Array.isArray(value) ? value.join(" ") : String(value ?? ""))
+		.toLowerCase()
+		.trim();
+}
+
+/**
+ * A text filter searches title, authors and keywords; a map filter compares frontmatter fields
+ */
+export function matchesFilter(
+	frontmatter: Record<string, unknown>,
+	filter: string | Record<string, unknown>
+): boolean {
+	if (typeof filter === "string") {
+		const query = filter.toLowerCase();
+		return ["title", "author", "keywords"].some((field) =>
+			asText(frontmatter[field]).includes(query)
+		);
+	}
+
+	return Object.entries(filter).every(([field, expected]) => {
+		const value = frontmatter[field];
+		const wanted = asText(expected);
+		return Array.isArray(value)
+			? value.some((item) => asText(item) === wanted)
+			: asText(value) === wanted;
+	});
+}
+
+/**
+ * Sort by a frontmatter field, e.g. "year" or "year desc"
+ */
+export function sortByField<T>(
+	items: T[],
+	sort: string,
+	frontmatterOf: (item: T) => Record<string, unknown>
+): T[] {
+	const [field, direction] = sort.trim().split(/\s+/);
+	const factor = direction?.toLowerCase() === "desc" ? -1 : 1;
+	const valueOf = (item: T) => {
+		const value = frontmatterOf(item)[field];
+		// Dates sort chronologically whatever notation they use
+		if (field === "year" || DATE_FIELDS.includes(field)) {
+			return dateSortKey(value);
+		}
+		// Sort people by family name, not by how the name was written
+		if (NAME_ROLES.includes(field)) {
+			const [first] = parseNameList(value);
+			return first ? nameSortKey(first) : "";
+		}
+		const first = Array.isArray(value) ? value[0] : value;
+		return String(first ?? "").toLowerCase();
+	};
+
+	return [...items].sort(
+		(a, b) =>
+			valueOf(a).localeCompare(valueOf(b), undefined, {
+				numeric: true,
+			}) * factor
+	);
+}
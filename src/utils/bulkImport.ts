@@ -0,0 +1,222 @@
+// @ts-ignore - citation-js doesn't have official TypeScript types
+import { Cite } from "@citation-js/core";
+import "@citation-js/plugin-bibtex";
+import "@citation-js/plugin-doi";
+import "@citation-js/plugin-isbn";
+require("@citation-js/plugin-hayagriva");
+import { BIBLIOGRAPHY_FORMAT_MAPPING } from "../types/interfaces";
+import { CitationData, processCitationData } from "./citationData";
+import { withRetry } from "./batch";
+import { normalizeDateFields } from "./dates";
+import { SourceIdentifier } from "./identifiers";
+import { fetchArxivSource } from "./arxiv";
+
+// Frontmatter fields that are filled in when merging an entry into an existing note
+const MERGE_FIELDS = [
+	"title",
+	"author",
+	"editor",
+	"translator",
+	"year",
+	"date",
+	"accessed",
+	"bibtype",
+	"journal",
+	"publisher",
+	"volume",
+	"number",
+	"pages",
+	"doi",
+	"isbn",
+	"url",
+	"abstract",
+	"keywords",
+];
+
+/**
+ * Detect the bibliography format from a file path or, for pasted content, from the content itself
+ */
+export function detectBibliographyFormat(
+	content: string,
+	path?: string
+): string {
+	if (path) {
+		const ext = path.toLowerCase().substring(path.lastIndexOf("."));
+		const format = BIBLIOGRAPHY_FORMAT_MAPPING[ext];
+		if (format) return format;
+	}
+
+	const trimmed = content.trim();
+	if (trimmed.startsWith("@")) return "bibtex";
+	if (trimmed.startsWith("[") || trimmed.startsWith("{")) return "csl-json";
+	return "hayagriva";
+}
+
+/**
+ * Parse a whole BibTeX, CSL-JSON or Hayagriva document into CSL-JSON entries
+ */
+export async function parseBibliographyEntries(
+	content: string,
+	format: string
+): Promise<CitationData[]> {
+	const options =
+		format === "hayagriva" ? { forceType: "@hayagriva/file" } : undefined;
+	const cite = await Cite.async(content, options);
+	const data = cite.format("data", { format: "object" });
+
+	if (!Array.isArray(data)) {
+		throw new Error(`Could not parse ${format} content`);
+	}
+
+	return data;
+}
+
+/**
+ * Convert a parsed CSL-JSON entry into source data, keeping the entry's own citekey
+ */
+export function citationEntryToSourceData(
+	entry: CitationData,
+	mediaType: string,
+	importMode: string,
+	citekeyPattern = ""
+): Record<string, unknown> {
+	const sourceData: Record<string, unknown> = {};
+
+	// citation-js assigns temporary ids to entries without a label
+	const citekey = entry["citation-key"] || entry.id;
+	if (citekey && !String(citekey).startsWith("temp_id_")) {
+		sourceData.citekey = String(citekey);
+	}
+
+	processCitationData(
+		entry,
+		sourceData,
+		mediaType,
+		importMode,
+		citekeyPattern
+	);
+	return sourceData;
+}
+
+/**
+ * Look up a DOI, ISBN or arXiv ID and convert it into source data
+ * Rate limits and network errors are retried with backoff
+ */
+export async function lookupIdentifier(
+	identifier: SourceIdentifier,
+	mediaType: string,
+	citekeyPattern = ""
+): Promise<Record<string, unknown>> {
+	if (identifier.type === "arxiv") {
+		return withRetry(() =>
+			fetchArxivSource(identifier.value, mediaType, citekeyPattern)
+		);
+	}
+
+	const data = await withRetry(async () => {
+		const cite = await Cite.async(identifier.value);
+		return cite.format("data", { format: "object" });
+	});
+
+	if (!data || data.length === 0) {
+		throw new Error(`No data found for ${identifier.value}`);
+	}
+
+	const sourceData: Record<string, unknown> = {};
+	processCitationData(
+		data[0],
+		sourceData,
+		mediaType,
+		identifier.type,
+		citekeyPattern
+	);
+
+	// Same fallback as the single DOI import (for academic papers)
+	if (
+		identifier.type === "doi" &&
+		(!sourceData.bibtype || sourceData.bibtype === "misc")
+	) {
+		sourceData.bibtype = "paper";
+	}
+
+	return sourceData;
+}
+
+/**
+ * Look up the metadata of a web page and convert it into source data
+ */
+export async function lookupUrl(
+	url: string,
+	mediaType: string,
+	citekeyPattern = ""
+): Promise<Record<string, unknown>> {
+	const data = await withRetry(async () => {
+		const cite = await Cite.async(url);
+		return cite.format("data", { format: "object" });
+	});
+
+	if (!data || data.length === 0) {
+		throw new Error(`No data found for ${url}`);
+	}
+
+	const sourceData: Record<string, unknown> = {};
+	processCitationData(data[0], sourceData, mediaType, "url", citekeyPattern);
+	return sourceData;
+}
+
+/**
+ * Citekeys that more than one of the given entries would get
+ */
+export function duplicateCitekeys(
+	sources: { citekey?: unknown }[]
+): Set<string> {
+	const seen = new Set<string>();
+	const duplicates = new Set<string>();
+	for (const source of sources) {
+		if (!source.citekey) continue;
+		const citekey = String(source.citekey);
+		if (seen.has(citekey)) duplicates.add(citekey);
+		seen.add(citekey);
+	}
+	return duplicates;
+}
+
+/**
+ * Fill frontmatter fields that are missing or empty from imported source data.
+ * Existing values are never overwritten.
+ * @returns Names of the fields that were added
+ */
+export function mergeSourceFrontmatter(
+	frontmatter: Record<string, unknown>,
+	sourceData: Record<string, unknown>
+): string[] {
+	const merged: string[] = [];
+	const incomingData = { ...sourceData };
+	normalizeDateFields(incomingData);
+
+	for (const field of MERGE_FIELDS) {
+		const incoming = incomingData[field];
+		if (
+			incoming === undefined ||
+			incoming === null ||
+			incoming === "" ||
+			(Array.isArray(incoming) && incoming.length === 0)
+		) {
+			continue;
+		}
+
+		const current = frontmatter[field];
+		const isEmpty =
+			current === undefined ||
+			current === null ||
+			current === "" ||
+			(Array.isArray(current) && current.length === 0);
+
+		if (isEmpty) {
+			frontmatter[field] = incoming;
+			merged.push(field);
+		}
+	}
+
+	return merged;
+}
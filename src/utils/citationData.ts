@@ -0,0 +1,161 @@
+import { CitekeyGenerator } from "./citekey";
+import { CslDate, formatDate, today } from "./dates";
+import { primaryIsbn, toIsbn10 } from "./identifiers";
+import { NAME_ROLES, PersonName, formatName } from "./names";
+
+/**
+ * Fields of a CSL-JSON entry that are mapped to source data
+ */
+export interface CitationData {
+	type?: string;
+	title?: string;
+	author?: (string | PersonName)[];
+	issued?: CslDate | null;
+	published?: CslDate | null;
+	accessed?: CslDate | null;
+	year?: string | number;
+	abstract?: string;
+	"container-title"?: string;
+	"container-title-short"?: string;
+	publisher?: string;
+	DOI?: string;
+	ISBN?: string | string[];
+	PMID?: string;
+	PMCID?: string;
+	URL?: string;
+	url?: string;
+	page?: string;
+	volume?: string;
+	issue?: string;
+	keyword?: string | string[];
+	// Other contributor roles, e.g. editor or translator
+	[field: string]: unknown;
+}
+
+/**
+ * Unified function to process citation-js data and update sourceData
+ * Shared by the single and bulk import paths so every entry is mapped the same way
+ * @param citationData - A single CSL-JSON entry as returned by citation-js
+ * @param sourceData - Source data object that is updated in place
+ * @param mediaType - Media type selected by the user ("default" auto-detects)
+ * @param importMode - Import mode used for bibtype fallbacks ("doi", "isbn", "url", "bibtex", ...)
+ * @param citekeyPattern - Citekey pattern from the settings, empty for the built-in scheme
+ */
+export function processCitationData(
+	citationData: CitationData,
+	sourceData: Record<string, unknown>,
+	mediaType: string,
+	importMode: string,
+	citekeyPattern = ""
+): void {
+	if (!citationData || typeof citationData !== "object") {
+		throw new Error("Invalid citation data received");
+	}
+
+	// Update core fields - only overwrite if citation has value
+	sourceData.title = citationData.title || sourceData.title;
+	sourceData.author = citationData.author
+		? CitekeyGenerator.extractAuthorsFromCitationData(citationData)
+		: sourceData.author;
+
+	// Other contributors (editor, translator, director, ...) as name strings
+	NAME_ROLES.forEach((role) => {
+		const names = citationData[role];
+		if (role !== "author" && Array.isArray(names)) {
+			sourceData[role] = names
+				.map((name: string | PersonName) => formatName(name))
+				.filter((name: string) => name.length > 0);
+		}
+	});
+
+	sourceData.year =
+		citationData.issued?.["date-parts"]?.[0]?.[0]?.toString() ||
+		citationData.published?.["date-parts"]?.[0]?.[0]?.toString() ||
+		citationData.year?.toString() ||
+		sourceData.year;
+
+	// Full publication and access dates as EDTF, e.g. "2023-05-01" or "2020/2021"
+	sourceData.date =
+		formatDate(citationData.issued || citationData.published) ||
+		sourceData.date;
+	sourceData.accessed =
+		formatDate(citationData.accessed) || sourceData.accessed;
+	if (!sourceData.accessed && importMode === "url") {
+		// Most styles expect an access date for web sources
+		sourceData.accessed = today();
+	}
+	sourceData.abstract = citationData.abstract;
+
+	// Update bibliographic fields
+	sourceData.journal = citationData["container-title"] || sourceData.journal;
+	sourceData.shortjournal =
+		citationData["container-title-short"] || sourceData.shortjournal;
+	sourceData.publisher = citationData.publisher || sourceData.publisher;
+	sourceData.doi = citationData.DOI || sourceData.doi;
+	// Canonical ISBN-13, with the ISBN-10 kept alongside for older catalogues
+	const isbn = primaryIsbn(citationData.ISBN) || primaryIsbn(sourceData.isbn);
+	sourceData.isbn = isbn || citationData.ISBN || sourceData.isbn;
+	sourceData.isbn10 = (isbn && toIsbn10(isbn)) || undefined;
+	sourceData.pmid = citationData.PMID || sourceData.pmid;
+	sourceData.pmcid = citationData.PMCID || sourceData.pmcid;
+	sourceData.url = citationData.URL || citationData.url || sourceData.url;
+	sourceData.pages = citationData.page
+		? parseInt(citationData.page)
+		: undefined;
+	sourceData.volume = citationData.volume || sourceData.volume;
+	sourceData.number = citationData.issue || sourceData.number;
+
+	// Set bibtype based on media type setting
+	if (mediaType === "default") {
+		// Auto-detect from citation data with import mode-specific defaults
+		if (citationData.type) {
+			sourceData.bibtype = citationData.type;
+		} else {
+			// Fallback to import mode defaults if no type detected
+			switch (importMode) {
+				case "isbn":
+					sourceData.bibtype = "book";
+					break;
+				case "url":
+					sourceData.bibtype = "webpage";
+					break;
+				case "bibtex":
+				case "doi":
+				default:
+					sourceData.bibtype = "article"; // Paper default
+					break;
+			}
+		}
+	} else {
+		// Use manually selected type
+		sourceData.bibtype =
+			mediaType === "Book"
+				? "book"
+				: mediaType === "Website"
+				? "webpage"
+				: mediaType === "Paper"
+				? "article"
+				: mediaType === "Other"
+				? "misc"
+				: citationData.type || "misc";
+	}
+
+	// Handle keywords if they exist
+	if (citationData.keyword) {
+		sourceData.keywords = Array.isArray(citationData.keyword)
+			? citationData.keyword
+			: [citationData.keyword];
+	}
+
+	// Generate citekey if not present and we have required data
+	const { title, author, year, journal } = sourceData;
+	if (!sourceData.citekey && title && Array.isArray(author) && year) {
+		sourceData.citekey = CitekeyGenerator.generateFromTitleAndAuthors(
+			String(title),
+			author,
+			parseInt(String(year)),
+			citekeyPattern,
+			journal ? String(journal) : ""
+		);
+	}
+}
@@ -0,0 +1,174 @@
+// Citation parsing and formatting for markdown, Pandoc, LaTeX and Typst documents
+import type { CitationFormat } from "../types/settings";
+
+// Pandoc citekeys start with a letter, digit or underscore; internal punctuation must be followed by a word character
+const CITEKEY_PATTERN = "[A-Za-z0-9_](?:\\w|[:.#$%&\\-+?<>~/](?=\\w))*";
+
+// [[@key]], [[@key|alias]], [[@key#heading]]
+const WIKILINK_CITATION = /\[\[@([^\]|#]+)/g;
+// [@key; @key2, p. 3], @key, -@key, @{key}; not "@handle" in URLs like https://medium.com/@handle
+const PANDOC_CITATION = new RegExp(
+	`(^|[^\\w@\\\\/:])-?@(?:\\{([^}]+)\\}|(${CITEKEY_PATTERN}))`,
+	"g"
+);
+// #cite(<key>), #cite(<key>, supplement: [...]), #cite(label("key"))
+const TYPST_CITATION =
+	/#cite\(\s*(?:<([^>\s]+)>|label\(\s*"([^"]+)"\s*\))/g;
+// \cite{a,b}, \citep[p. 3]{a}, \parencite*{a}, \textcite{a}
+const LATEX_CITATION =
+	/\\[a-zA-Z]*cite[a-zA-Z]*\*?(?:\[[^\]]*\]){0,2}\{([^}]+)\}/g;
+
+/**
+ * Remove frontmatter, fenced code blocks and inline code so they don't produce false citations
+ */
+function stripNonProse(text: string): string {
+	return text
+		.replace(/^---\n[\s\S]*?\n---/, "")
+		.replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, "")
+		.replace(/`[^`\n]*`/g, "");
+}
+
+/**
+ * Apply a transform to everything except fenced and inline code
+ */
+function mapOutsideCode(
+	text: string,
+	transform: (prose: string) => string
+): string {
+	const code = /^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$|`[^`\n]*`/gm;
+	let result = "";
+	let lastIndex = 0;
+
+	forEachMatch(code, text, (match) => {
+		result += transform(text.substring(lastIndex, match.index)) + match[0];
+		lastIndex = match.index + match[0].length;
+	});
+
+	return result + transform(text.substring(lastIndex));
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Run a global regex over text and call back for every match
+ */
+function forEachMatch(
+	regex: RegExp,
+	text: string,
+	callback: (match: RegExpExecArray) => void
+): void {
+	regex.lastIndex = 0;
+	let match: RegExpExecArray | null;
+	while ((match = regex.exec(text)) !== null) {
+		callback(match);
+	}
+}
+
+/**
+ * Extract all cited citekeys from a document, in order of first appearance
+ * Supports [[@key]] links, Pandoc [@key] / @key citations, Typst #cite(<key>) and LaTeX \cite{key}
+ */
+export function extractCitekeys(text: string): string[] {
+	const prose = stripNonProse(text);
+	const found: { key: string; index: number }[] = [];
+
+	forEachMatch(WIKILINK_CITATION, prose, (match) => {
+		found.push({ key: match[1].trim(), index: match.index });
+	});
+
+	forEachMatch(PANDOC_CITATION, prose, (match) => {
+		const key = match[2] || match[3];
+		found.push({ key: key.trim(), index: match.index });
+	});
+
+	forEachMatch(TYPST_CITATION, prose, (match) => {
+		found.push({ key: (match[1] || match[2]).trim(), index: match.index });
+	});
+
+	forEachMatch(LATEX_CITATION, prose, (match) => {
+		match[1]
+			.split(",")
+			.map((key) => key.trim())
+			.filter((key) => key.length > 0)
+			.forEach((key) => found.push({ key, index: match.index }));
+	});
+
+	// Keep order of first appearance and drop duplicates
+	found.sort((a, b) => a.index - b.index);
+	return Array.from(new Set(found.map((f) => f.key)));
+}
+
+/**
+ * Format a citation for insertion into a note
+ * @param citekeys - One or more citekeys cited together
+ * @param format - "wikilink" [[@key]], "pandoc" [@key], "latex" \cite{key} or "typst" @key
+ */
+export function formatCitation(
+	citekeys: string[],
+	format: CitationFormat
+): string {
+	switch (format) {
+		case "pandoc":
+			return `[${citekeys.map((key) => `@${key}`).join("; ")}]`;
+		case "latex":
+			return `\\cite{${citekeys.join(",")}}`;
+		case "typst":
+			return citekeys.map((key) => `@${key}`).join(" ");
+		case "wikilink":
+		default:
+			return citekeys.map((key) => `[[@${key}]]`).join(", ");
+	}
+}
+
+/**
+ * Replace every citation of one citekey with another, leaving code untouched
+ * Rewrites [[@key]] links, Pandoc @key / @{key}, Typst #cite(<key>) and keys inside LaTeX \cite{...}
+ * @returns The rewritten text and the number of citations that changed
+ */
+export function rewriteCitekey(
+	text: string,
+	oldKey: string,
+	newKey: string
+): { text: string; count: number } {
+	let count = 0;
+
+	const rewritten = mapOutsideCode(text, (prose) =>
+		prose
+			.replace(
+				new RegExp(`\\[\\[@${escapeRegExp(oldKey)}(?=[\\]|#])`, "g"),
+				() => {
+					count++;
+					return `[[@${newKey}`;
+				}
+			)
+			.replace(PANDOC_CITATION, (match, prefix, braced, bare) => {
+				if ((braced || bare) !== oldKey) return match;
+				count++;
+				return braced
+					? `${match.slice(0, -(braced.length + 1))}${newKey}}`
+					: `${match.slice(0, -bare.length)}${newKey}`;
+			})
+			.replace(TYPST_CITATION, (match, angled, labeled) => {
+				if ((angled || labeled) !== oldKey) return match;
+				count++;
+				return angled
+					? match.replace(`<${angled}>`, `<${newKey}>`)
+					: match.replace(`"${labeled}"`, `"${newKey}"`);
+			})
+			.replace(LATEX_CITATION, (match, keys: string) => {
+				const parts = keys.split(",");
+				const renamed = parts.map((part) => {
+					if (part.trim() !== oldKey) return part;
+					count++;
+					return part.replace(oldKey, newKey);
+				});
+				return `${match.slice(0, -(keys.length + 1))}${renamed.join(
+					","
+				)}}`;
+			})
+	);
+
+	return { text: rewritten, count };
+}
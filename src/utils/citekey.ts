@@ -6,13 +6,63 @@ import {
 	parseYaml,
 	stringifyYaml,
 } from "obsidian";
+import { SourceService } from "../sourceService";
+import { BibliographySettings, CitekeySuffixScheme } from "../types/settings";
+import { familyName, formatName } from "./names";
+
+/**
+ * Source fields available to citekey patterns
+ */
+export interface CitekeySource {
+	title?: string;
+	author?: string[];
+	year?: string | number;
+	journal?: string;
+}
+
+// Words skipped by [shorttitle], [veryshorttitle] and the :abbr modifier
+const TITLE_STOP_WORDS = new Set([
+	"a",
+	"an",
+	"and",
+	"as",
+	"at",
+	"by",
+	"for",
+	"from",
+	"in",
+	"into",
+	"of",
+	"on",
+	"or",
+	"the",
+	"to",
+	"with",
+	"der",
+	"die",
+	"das",
+	"ein",
+	"eine",
+	"und",
+	"le",
+	"la",
+	"les",
+	"de",
+	"des",
+	"du",
+	"el",
+	"los",
+]);
 
 export class CitekeyGenerator {
 	static generateCitekey(
 		authors: string[],
-		year: number,
+		year?: number | string,
 		title?: string
 	): string {
+		// Sources without a year get a citekey without the year digits
+		const yearSuffix = year ? String(year).slice(-2) : "";
+
 		if (authors.length === 0) {
 			// If no authors, use first 5 letters from title
 			if (title && title.trim().length > 0) {
@@ -29,15 +79,13 @@ export class CitekeyGenerator {
 				return (
 					titleBase.charAt(0).toUpperCase() +
 					titleBase.substring(1) +
-					year.toString().slice(-2)
+					yearSuffix
 				);
 			} else {
-				return "Unknown" + year.toString().slice(-2);
+				return "Unknown" + yearSuffix;
 			}
 		}
 
-		const yearSuffix = year.toString().slice(-2);
-
 		if (authors.length === 1) {
 			// One author: first 3 letters of lastname + year
 			const lastName = this.extractLastName(authors[0]);
@@ -62,26 +110,183 @@ export class CitekeyGenerator {
 		}
 	}
 
-	private static extractLastName(authorName: string): string {
-		// Handle formats: "John Smith", "Smith, John", "J. Smith"
-		const parts = authorName.split(",").map((p) => p.trim());
-		if (parts.length === 2) {
-			return parts[0]; // "Smith, John" -> "Smith"
-		} else {
-			const words = parts[0].split(" ");
-			return words[words.length - 1]; // "John Smith" -> "Smith"
-		}
+	static extractLastName(authorName: string): string {
+		// "John Smith", "Smith, John", "van der Berg, Jan" -> family name without particles
+		return familyName(authorName);
 	}
 
 	static generateFromTitleAndAuthors(
 		title: string,
 		authors: string[],
-		year: number
+		year?: number | string,
+		pattern = "",
+		journal = ""
 	): string {
+		// A custom pattern takes precedence; fall back if it yields nothing
+		if (pattern.trim()) {
+			const patternKey = this.formatPattern(pattern, {
+				title,
+				author: authors,
+				year,
+				journal,
+			});
+			if (patternKey) return patternKey;
+		}
+
 		const citekey = this.generateCitekey(authors, year, title);
 		return citekey;
 	}
 
+	/**
+	 * Build a citekey from a Better BibTeX-style pattern like "[auth:lower][year][veryshorttitle:lower]"
+	 * Tokens: [auth], [authors], [authorsN], [year], [shortyear], [title], [shorttitle],
+	 * [veryshorttitle], [journal]
+	 * Modifiers: :lower, :upper, :capitalize, :firstword, :abbr (initials), :N (first N characters)
+	 * Text outside brackets is copied as is; unknown tokens are dropped
+	 */
+	static formatPattern(pattern: string, source: CitekeySource): string {
+		return pattern
+			.replace(/\[([^\]]+)\]/g, (_, expression: string) => {
+				const [token, ...modifiers] = expression.split(":");
+				let words = this.resolvePatternToken(token.trim(), source);
+				for (const modifier of modifiers) {
+					words = this.applyPatternModifier(words, modifier.trim());
+				}
+				return words.join("");
+			})
+			.replace(/\s+/g, "");
+	}
+
+	private static resolvePatternToken(
+		token: string,
+		source: CitekeySource
+	): string[] {
+		const authors = (source.author || []).map((author) =>
+			this.keyWords(this.extractLastName(author)).join("")
+		);
+		const year = String(source.year ?? "").match(/\d{4}/)?.[0] || "";
+		const titleWords = this.keyWords(source.title || "").map((word) =>
+			this.capitalize(word)
+		);
+		const significantWords = titleWords.filter(
+			(word) => !TITLE_STOP_WORDS.has(word.toLowerCase())
+		);
+
+		const authorsMatch = token.match(/^authors(\d*)$/);
+		if (authorsMatch) {
+			const count = authorsMatch[1]
+				? parseInt(authorsMatch[1])
+				: authors.length;
+			const names = authors.slice(0, count);
+			return authors.length > count ? [...names, "EtAl"] : names;
+		}
+
+		switch (token) {
+			case "auth":
+				return authors.slice(0, 1);
+			case "year":
+				return year ? [year] : [];
+			case "shortyear":
+				return year ? [year.slice(-2)] : [];
+			case "title":
+				return titleWords;
+			case "shorttitle":
+				return significantWords.slice(0, 3);
+			case "veryshorttitle":
+				return significantWords.slice(0, 1);
+			case "journal":
+				return this.keyWords(source.journal || "").map((word) =>
+					this.capitalize(word)
+				);
+			default:
+				console.warn(`Unknown citekey pattern token: [${token}]`);
+				return [];
+		}
+	}
+
+	private static applyPatternModifier(
+		words: string[],
+		modifier: string
+	): string[] {
+		if (/^\d+$/.test(modifier)) {
+			return [words.join("").substring(0, parseInt(modifier))];
+		}
+
+		switch (modifier) {
+			case "lower":
+				return words.map((word) => word.toLowerCase());
+			case "upper":
+				return words.map((word) => word.toUpperCase());
+			case "capitalize":
+				return words.map((word) => this.capitalize(word));
+			case "firstword":
+				return words.slice(0, 1);
+			case "abbr":
+				return [
+					words
+						.filter(
+							(word) => !TITLE_STOP_WORDS.has(word.toLowerCase())
+						)
+						.map((word) => word.charAt(0))
+						.join(""),
+				];
+			default:
+				console.warn(`Unknown citekey pattern modifier: ${modifier}`);
+				return words;
+		}
+	}
+
+	/**
+	 * Split text into words usable in a citekey: markup, accents and punctuation removed
+	 */
+	private static keyWords(text: string): string[] {
+		return text
+			.replace(/<[^>]*>/g, "")
+			.replace(/&[^;]+;/g, "")
+			.replace(/\\[a-zA-Z]+\{([^}]+)\}/g, "$1")
+			.normalize("NFD")
+			.replace(/[\u0300-\u036f]/g, "")
+			.split(/[^A-Za-z0-9\u00C0-\u024F]+/)
+			.filter((word) => word.length > 0);
+	}
+
+	private static capitalize(word: string): string {
+		return word.charAt(0).toUpperCase() + word.substring(1);
+	}
+
+	/**
+	 * Append a disambiguation suffix until the citekey is not taken
+	 * e.g. "Smi23" -> "Smi23a", "Smi23b", ... or "Smi23_2", "Smi23_3", ...
+	 */
+	static makeUnique(
+		citekey: string,
+		existing: Set<string>,
+		scheme: CitekeySuffixScheme = "letters"
+	): string {
+		if (!existing.has(citekey)) return citekey;
+
+		for (let i = 1; ; i++) {
+			const candidate =
+				scheme === "numbers"
+					? `${citekey}_${i + 1}`
+					: citekey + this.letterSuffix(i);
+			if (!existing.has(candidate)) return candidate;
+		}
+	}
+
+	/**
+	 * 1 -> "a", 26 -> "z", 27 -> "aa", 28 -> "ab", ...
+	 */
+	private static letterSuffix(index: number): string {
+		let suffix = "";
+		while (index > 0) {
+			const remainder = (index - 1) % 26;
+			suffix = String.fromCharCode(97 + remainder) + suffix;
+			index = Math.floor((index - 1) / 26);
+		}
+		return suffix;
+	}
+
 	static sanitizeFilename(title: string): string {
 		// Create a clean filename from title
 		return (
@@ -104,18 +309,13 @@ export class CitekeyGenerator {
 	}
 
 	/**
-	 * Extract authors from citation-js data format and return as string array
+	 * Extract authors from citation-js data format as name strings that parseName restores
 	 */
 	static extractAuthorsFromCitationData(citationData: any): string[] {
 		const authors = citationData.author || [];
-		return authors.map((author: any) => {
-			if (author.literal) return author.literal;
-			if (author.family && author.given) {
-				return `${author.family}, ${author.given}`;
-			}
-			if (author.family) return author.family;
-			return "Unknown Author";
-		});
+		return authors.map(
+			(author: any) => formatName(author) || "Unknown Author"
+		);
 	}
 
 	/**
@@ -144,7 +344,7 @@ export class CitekeyGenerator {
 }
 
 export class GenerateCitekeyCommand {
-	constructor(private app: App) {}
+	constructor(private app: App, private settings: BibliographySettings) {}
 
 	async execute(editor: Editor, view: MarkdownView) {
 		const file = view.file;
@@ -174,10 +374,26 @@ export class GenerateCitekeyCommand {
 				return;
 			}
 
-			const citekey = CitekeyGenerator.generateFromTitleAndAuthors(
-				title,
-				authors,
-				year
+			// Keys of all other source notes are taken; this note's own key may be kept
+			const citekeyIndex = await new SourceService(
+				this.app,
+				this.settings
+			).getCitekeyIndex(this.settings.sourcesFolder);
+			const existing = new Set<string>();
+			citekeyIndex.forEach((indexedFile, key) => {
+				if (indexedFile.path !== file.path) existing.add(key);
+			});
+
+			const citekey = CitekeyGenerator.makeUnique(
+				CitekeyGenerator.generateFromTitleAndAuthors(
+					title,
+					authors,
+					year,
+					this.settings.citekeyPattern,
+					yaml.journal || ""
+				),
+				existing,
+				this.settings.citekeySuffixScheme
 			);
 
 			// Update frontmatter with citekey
@@ -0,0 +1,111 @@
+import { App, TFile, TFolder, normalizePath } from "obsidian";
+// @ts-ignore - citation-js doesn't have official TypeScript types
+import { plugins } from "@citation-js/core";
+import "@citation-js/plugin-csl";
+
+// Styles bundled with @citation-js/plugin-csl, available without a styles folder
+export const BUILTIN_CSL_STYLES = ["apa", "vancouver", "harvard1"];
+
+// Locale files are named like the official CSL repository: locales-en-GB.xml
+const LOCALE_FILENAME = /^(?:locales-)?([a-z]{2,3}(?:-[A-Z][A-Za-z]+)?)$/;
+
+export interface CslResources {
+	styles: string[];
+	locales: string[];
+}
+
+/**
+ * Register all CSL styles (.csl) and locales (.xml) from a vault folder with citation-js
+ * Style names are the file basenames in lowercase, e.g. "ieee.csl" -> "ieee"
+ */
+export async function loadCslResources(
+	app: App,
+	folderPath: string
+): Promise<CslResources> {
+	const config = plugins.config.get("@csl");
+	const resources: CslResources = { styles: [], locales: [] };
+
+	const folder = folderPath
+		? app.vault.getAbstractFileByPath(normalizePath(folderPath))
+		: null;
+
+	if (folder instanceof TFolder) {
+		for (const file of collectFiles(folder)) {
+			try {
+				if (file.extension === "csl") {
+					const name = file.basename.toLowerCase();
+					config.templates.add(name, await app.vault.cachedRead(file));
+					resources.styles.push(name);
+				} else if (file.extension === "xml") {
+					const localeMatch = file.basename.match(LOCALE_FILENAME);
+					if (localeMatch) {
+						config.locales.add(
+							localeMatch[1],
+							await app.vault.cachedRead(file)
+						);
+						resources.locales.push(localeMatch[1]);
+					}
+				}
+			} catch (error) {
+				console.warn(`Could not load CSL file ${file.path}:`, error);
+			}
+		}
+	} else if (folderPath) {
+		console.warn(`CSL styles folder not found: ${folderPath}`);
+	}
+
+	return resources;
+}
+
+/**
+ * List all style names citation-js currently knows about (built-in and loaded)
+ */
+export function getAvailableCslStyles(): string[] {
+	return plugins.config.get("@csl").templates.list();
+}
+
+/**
+ * Format citation-js data as a human-readable reference list
+ * @param cite - Cite instance holding the entries
+ * @param style - Registered CSL style name, e.g. "apa"
+ * @param locale - CSL locale, e.g. "en-US"
+ * @param format - "text" for plain text, "html" for rendering in notes
+ * @param keepOrder - Keep the order of the entries instead of the style's sort order
+ */
+export function formatCslBibliography(
+	cite: { format: (format: string, options: object) => string },
+	style: string,
+	locale: string,
+	format: "text" | "html" = "text",
+	keepOrder = false
+): string {
+	const template = style.toLowerCase();
+	if (!plugins.config.get("@csl").templates.has(template)) {
+		throw new Error(
+			`Unknown CSL style "${style}". Available styles: ${getAvailableCslStyles().join(
+				", "
+			)}`
+		);
+	}
+
+	return cite.format("bibliography", {
+		format,
+		template,
+		lang: locale || "en-US",
+		nosort: keepOrder,
+	});
+}
+
+function collectFiles(folder: TFolder): TFile[] {
+	const files: TFile[] = [];
+
+	for (const child of folder.children) {
+		if (child instanceof TFile) {
+			files.push(child);
+		} else if (child instanceof TFolder) {
+			files.push(...collectFiles(child));
+		}
+	}
+
+	return files;
+}
@@ -0,0 +1,225 @@
+// EDTF / ISO 8601 date handling for issued, accessed and reading dates
+
+/**
+ * A date in CSL-JSON form
+ * One entry in `date-parts` is a single date, two entries are a range
+ */
+export interface CslDate {
+	"date-parts": number[][];
+	circa?: boolean;
+	season?: number;
+	literal?: string;
+	// Unparsed date as citation-js keeps it, e.g. { raw: "2023-05" }
+	raw?: string;
+}
+
+// Date fields normalized to EDTF strings in frontmatter
+export const DATE_FIELDS = ["date", "accessed", "added", "started", "ended"];
+
+// "2023", "2023-05", "2023-05-01" or an EDTF season "2023-21", with ~ ? % qualifiers before or after
+const EDTF_DATE =
+	/^([~?%])?(-?\d{4})(?:-(\d{2})(?:-(\d{2}))?)?(?:T[\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?([~?%])?$/;
+
+function isLeapYear(year: number): boolean {
+	return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+function daysInMonth(year: number, month: number): number {
+	if (month === 2) return isLeapYear(year) ? 29 : 28;
+	return [4, 6, 9, 11].includes(month) ? 30 : 31;
+}
+
+function parseSingleDate(
+	text: string
+): { parts: number[]; circa: boolean; season?: number } | null {
+	const match = text.trim().match(EDTF_DATE);
+	if (!match) return null;
+
+	const [, prefix, year, month, day, suffix] = match;
+	const parts = [parseInt(year)];
+	let season: number | undefined;
+
+	if (month) {
+		const monthNumber = parseInt(month);
+		if (monthNumber >= 21 && monthNumber <= 24) {
+			// EDTF seasons: 21 spring, 22 summer, 23 autumn, 24 winter
+			season = monthNumber - 20;
+		} else if (monthNumber >= 1 && monthNumber <= 12) {
+			parts.push(monthNumber);
+			if (day) {
+				const dayNumber = parseInt(day);
+				if (
+					dayNumber < 1 ||
+					dayNumber > daysInMonth(parts[0], monthNumber)
+				) {
+					return null;
+				}
+				parts.push(dayNumber);
+			}
+		} else {
+			return null;
+		}
+	}
+
+	return { parts, circa: Boolean(prefix || suffix), season };
+}
+
+/**
+ * Parse a frontmatter or imported date into CSL form
+ * Accepts years, ISO dates and timestamps, EDTF ranges ("2020/2021", "2020-05/..")
+ * and approximate dates ("2023~", "~2023", "2023?"); falls back to the first four-digit year
+ * Impossible dates like "2023-02-30" give null
+ */
+export function parseDate(value: unknown): CslDate | null {
+	if (value === undefined || value === null || value === "") return null;
+
+	if (value instanceof Date) {
+		if (isNaN(value.getTime())) return null;
+		return {
+			"date-parts": [
+				[value.getFullYear(), value.getMonth() + 1, value.getDate()],
+			],
+		};
+	}
+
+	if (typeof value === "number") {
+		return { "date-parts": [[Math.trunc(value)]] };
+	}
+
+	if (typeof value === "object") {
+		const csl = value as Record<string, unknown>;
+		if (!Array.isArray(csl["date-parts"]) && typeof csl.raw === "string") {
+			return parseDate(csl.raw);
+		}
+		return isCslDate(csl) ? (value as CslDate) : null;
+	}
+
+	const text = String(value).trim();
+	const [start, end] = text.split("/");
+	const startDate = parseSingleDate(start);
+	// Written like a date but with a day or month that doesn't exist
+	const isInvalid = (part: string | undefined) =>
+		part !== undefined &&
+		EDTF_DATE.test(part.trim()) &&
+		!parseSingleDate(part);
+	if (isInvalid(start) || isInvalid(end)) return null;
+
+	if (startDate) {
+		const date: CslDate = { "date-parts": [startDate.parts] };
+		// Open ranges ("2020/..", "2020/") keep only the start
+		const endDate =
+			end !== undefined && end !== ".." && end !== ""
+				? parseSingleDate(end)
+				: null;
+		if (endDate) date["date-parts"].push(endDate.parts);
+		if (startDate.circa || endDate?.circa) date.circa = true;
+		if (startDate.season) date.season = startDate.season;
+		return date;
+	}
+
+	const year = text.match(/\d{4}/);
+	return year
+		? { "date-parts": [[parseInt(year[0])]], literal: text }
+		: { "date-parts": [], literal: text };
+}
+
+function isCslDate(value: Record<string, unknown>): boolean {
+	return (
+		Array.isArray(value["date-parts"]) ||
+		typeof value.raw === "string" ||
+		typeof value.literal === "string"
+	);
+}
+
+function pad(value: number): string {
+	return value < 10 ? `0${value}` : String(value);
+}
+
+function pad4(value: number): string {
+	return `000${value}`.slice(-Math.max(4, String(value).length));
+}
+
+function formatParts(parts: number[], season?: number): string {
+	const [year, month, day] = parts;
+	const yearText = year < 0 ? `-${pad4(Math.abs(year))}` : pad4(year);
+	if (season && !month) return `${yearText}-${20 + season}`;
+	if (!month) return yearText;
+	if (!day) return `${yearText}-${pad(month)}`;
+	return `${yearText}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Format a CSL date (e.g. from citation-js) as an EDTF string for frontmatter
+ * { "date-parts": [[2020, 5], [2021]], circa: true } -> "2020-05~/2021~"
+ */
+export function formatDate(date: CslDate | null | undefined): string {
+	if (!date) return "";
+
+	const raw = date.raw;
+	const parts = (date["date-parts"] || []).filter(
+		(part) => Array.isArray(part) && part.length > 0 && part[0]
+	);
+	if (parts.length === 0) {
+		return (
+			date.literal || (typeof raw === "string" ? normalizeDate(raw) : "")
+		);
+	}
+
+	const qualifier = date.circa ? "~" : "";
+	return parts
+		.slice(0, 2)
+		.map((part) => formatParts(part.map(Number), date.season) + qualifier)
+		.join("/");
+}
+
+/**
+ * Normalize any supported date notation to EDTF, keeping unparseable text as is
+ */
+export function normalizeDate(value: unknown): string {
+	const date = parseDate(value);
+	if (!date) return "";
+	return date.literal ? date.literal : formatDate(date);
+}
+
+/**
+ * Normalize the date fields of a source or frontmatter object in place
+ * Impossible dates are removed rather than stored
+ */
+export function normalizeDateFields(fields: Record<string, unknown>): void {
+	DATE_FIELDS.forEach((field) => {
+		const value = fields[field];
+		if (value === undefined || value === null || value === "") return;
+
+		const normalized = normalizeDate(value);
+		if (normalized) {
+			fields[field] = normalized;
+		} else {
+			delete fields[field];
+		}
+	});
+}
+
+/**
+ * Year of the (start) date, or "" if there is none
+ */
+export function dateYear(value: unknown): string {
+	const year = parseDate(value)?.["date-parts"]?.[0]?.[0];
+	return year ? String(year) : "";
+}
+
+/**
+ * Sortable "YYYY-MM-DD" key of the (start) date, missing parts sort first
+ */
+export function dateSortKey(value: unknown): string {
+	const parts = parseDate(value)?.["date-parts"]?.[0];
+	if (!parts || parts.length === 0) return "";
+	const [year, month = 0, day = 0] = parts;
+	return `${pad4(year)}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Today's date as "YYYY-MM-DD", e.g. for accessed and added dates
+ */
+export function today(): string {
+	return formatDate(parseDate(new Date()));
+}
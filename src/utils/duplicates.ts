@@ -0,0 +1,128 @@
+import { CitekeyGenerator } from "./citekey";
+import { doiKey, isbnKey } from "./identifiers";
+
+export interface DuplicateCandidate {
+	path: string;
+	frontmatter: Record<string, unknown>;
+}
+
+export interface DuplicatePair<T extends DuplicateCandidate> {
+	a: T;
+	b: T;
+	reasons: string[];
+}
+
+// Minimum title similarity (0..1) for a fuzzy title + year + first author match
+const TITLE_SIMILARITY_THRESHOLD = 0.85;
+
+/**
+ * Lowercase a title and strip accents, punctuation and LaTeX/HTML markup for comparison
+ */
+export function normalizeTitle(title: string): string {
+	return String(title || "")
+		.normalize("NFD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.replace(/<[^>]*>/g, "")
+		.replace(/\\[a-zA-Z]+\{([^}]+)\}/g, "$1")
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, " ")
+		.trim();
+}
+
+/**
+ * Dice coefficient on character bigrams, 1 for identical strings
+ */
+export function titleSimilarity(a: string, b: string): number {
+	const first = normalizeTitle(a);
+	const second = normalizeTitle(b);
+	if (!first || !second) return 0;
+	if (first === second) return 1;
+	if (first.length < 2 || second.length < 2) return 0;
+
+	const bigrams = new Map<string, number>();
+	for (let i = 0; i < first.length - 1; i++) {
+		const bigram = first.substring(i, i + 2);
+		bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+	}
+
+	let intersection = 0;
+	for (let i = 0; i < second.length - 1; i++) {
+		const bigram = second.substring(i, i + 2);
+		const count = bigrams.get(bigram) || 0;
+		if (count > 0) {
+			bigrams.set(bigram, count - 1);
+			intersection++;
+		}
+	}
+
+	return (2 * intersection) / (first.length + second.length - 2);
+}
+
+function firstAuthorKey(frontmatter: Record<string, unknown>): string {
+	const authors = Array.isArray(frontmatter.author)
+		? frontmatter.author
+		: frontmatter.author
+		? [frontmatter.author]
+		: [];
+	if (authors.length === 0) return "";
+	return normalizeTitle(CitekeyGenerator.extractLastName(String(authors[0])));
+}
+
+function yearKey(frontmatter: Record<string, unknown>): string {
+	const match = String(frontmatter.year ?? "").match(/\d{4}/);
+	return match ? match[0] : "";
+}
+
+/**
+ * Find likely duplicate sources by citekey, normalized DOI, ISBN-13,
+ * or a similar title with the same year and first author
+ */
+export function findDuplicates<T extends DuplicateCandidate>(
+	items: T[]
+): DuplicatePair<T>[] {
+	const pairs: DuplicatePair<T>[] = [];
+
+	for (let i = 0; i < items.length; i++) {
+		for (let j = i + 1; j < items.length; j++) {
+			const a = items[i].frontmatter;
+			const b = items[j].frontmatter;
+			const reasons: string[] = [];
+
+			if (a.citekey && String(a.citekey) === String(b.citekey)) {
+				reasons.push("same citekey");
+			}
+
+			if (a.doi && b.doi && doiKey(String(a.doi)) === doiKey(String(b.doi))) {
+				reasons.push("same DOI");
+			}
+
+			if (
+				a.isbn &&
+				b.isbn &&
+				isbnKey(String(a.isbn)) !== "" &&
+				isbnKey(String(a.isbn)) === isbnKey(String(b.isbn))
+			) {
+				reasons.push("same ISBN");
+			}
+
+			const year = yearKey(a);
+			const author = firstAuthorKey(a);
+			if (
+				year &&
+				year === yearKey(b) &&
+				author &&
+				author === firstAuthorKey(b) &&
+				titleSimilarity(String(a.title ?? ""), String(b.title ?? "")) >=
+					TITLE_SIMILARITY_THRESHOLD
+			) {
+				reasons.push("similar title, same year and first author");
+			}
+
+			if (reasons.length > 0) {
+				pairs.push({ a: items[i], b: items[j], reasons });
+			}
+		}
+	}
+
+	return pairs;
+}
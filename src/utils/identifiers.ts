@@ -0,0 +1,302 @@
+// Normalization helpers for DOIs, ISBNs and other source identifiers
+import { ISBN_REGISTRANT_RANGES } from "./isbnRanges";
+
+/**
+ * Strip resolver URLs and "doi:" prefixes from a DOI, keeping its original case
+ * e.g. "https://doi.org/10.1000/XYZ" -> "10.1000/XYZ"
+ */
+export function normalizeDoi(doi: string): string {
+	return String(doi || "")
+		.trim()
+		.replace(/^https?:\/\/(?:dx\.)?doi\.org\//i, "")
+		.replace(/^doi:\s*/i, "")
+		.trim();
+}
+
+/**
+ * DOIs are case-insensitive, so compare them in lowercase
+ */
+export function doiKey(doi: string): string {
+	return normalizeDoi(doi).toLowerCase();
+}
+
+/**
+ * Remove hyphens and spaces from an ISBN, uppercasing a trailing check digit "x"
+ */
+export function normalizeIsbn(isbn: string): string {
+	return String(isbn || "")
+		.replace(/^isbn(?:-1[03])?:?\s*/i, "")
+		.replace(/[^0-9Xx]/g, "")
+		.toUpperCase();
+}
+
+/**
+ * Check the ISBN-10 or ISBN-13 check digit
+ */
+export function isValidIsbn(isbn: string): boolean {
+	const digits = normalizeIsbn(isbn);
+
+	if (/^\d{9}[\dX]$/.test(digits)) {
+		const sum = digits
+			.split("")
+			.reduce(
+				(total, char, i) =>
+					total + (char === "X" ? 10 : parseInt(char)) * (10 - i),
+				0
+			);
+		return sum % 11 === 0;
+	}
+
+	if (/^97[89]\d{10}$/.test(digits)) {
+		const sum = digits
+			.split("")
+			.reduce(
+				(total, char, i) => total + parseInt(char) * (i % 2 ? 3 : 1),
+				0
+			);
+		return sum % 10 === 0;
+	}
+
+	return false;
+}
+
+function isbn13CheckDigit(first12: string): string {
+	const sum = first12
+		.split("")
+		.reduce(
+			(total, char, i) => total + parseInt(char) * (i % 2 ? 3 : 1),
+			0
+		);
+	return String((10 - (sum % 10)) % 10);
+}
+
+/**
+ * Canonical ISBN-13 digits of a valid ISBN-10 or ISBN-13, or null if the check digit is wrong
+ * e.g. "0-262-03384-4" -> "9780262033848"
+ */
+export function toIsbn13(isbn: string): string | null {
+	if (!isValidIsbn(isbn)) return null;
+	const digits = normalizeIsbn(isbn);
+	if (digits.length === 13) return digits;
+
+	const first12 = `978${digits.slice(0, 9)}`;
+	return first12 + isbn13CheckDigit(first12);
+}
+
+/**
+ * ISBN-10 of a valid ISBN, or null for 979 ISBNs, which have none
+ * e.g. "9780262033848" -> "0262033844"
+ */
+export function toIsbn10(isbn: string): string | null {
+	const isbn13 = toIsbn13(isbn);
+	if (!isbn13 || !isbn13.startsWith("978")) return null;
+
+	const first9 = isbn13.slice(3, 12);
+	const sum = first9
+		.split("")
+		.reduce((total, char, i) => total + parseInt(char) * (10 - i), 0);
+	const check = (11 - (sum % 11)) % 11;
+	return first9 + (check === 10 ? "X" : String(check));
+}
+
+/**
+ * Split a valid ISBN into prefix, group, registrant, publication and check digit,
+ * e.g. "9780262033848" -> "978-0-262-03384-8"
+ * @returns The hyphenated ISBN-13, or null if its registration group is not in the range table
+ */
+export function hyphenateIsbn(isbn: string): string | null {
+	const isbn13 = toIsbn13(isbn);
+	if (!isbn13) return null;
+
+	for (const group of Object.keys(ISBN_REGISTRANT_RANGES)) {
+		const groupDigits = group.replace("-", "");
+		if (!isbn13.startsWith(groupDigits)) continue;
+
+		const rest = isbn13.slice(groupDigits.length, 12);
+		const key = `${rest}0000000`.slice(0, 7);
+		const range = ISBN_REGISTRANT_RANGES[group].find(
+			([start, end]) => key >= start && key <= end
+		);
+		if (!range || range[2] >= rest.length) return null;
+
+		return [
+			group,
+			rest.slice(0, range[2]),
+			rest.slice(range[2]),
+			isbn13.slice(12),
+		].join("-");
+	}
+
+	return null;
+}
+
+/**
+ * Canonical ISBN for storage: ISBN-13, hyphenated if asked and the ranges are known
+ * Invalid ISBNs are returned as they are, so they stay visible for fixing
+ */
+export function formatIsbn(isbn: string, hyphenate = false): string {
+	const isbn13 = toIsbn13(isbn);
+	if (!isbn13) return String(isbn || "").trim();
+	return (hyphenate && hyphenateIsbn(isbn13)) || isbn13;
+}
+
+/**
+ * First valid ISBN in a field that may list several, e.g. CSL "9780262033848 0262033844"
+ * @returns Its ISBN-13 digits, or null if there is none
+ */
+export function primaryIsbn(value: unknown): string | null {
+	if (!value) return null;
+	const text = Array.isArray(value) ? value.join(" ") : String(value);
+	const single = toIsbn13(text);
+	if (single) return single;
+
+	const found = extractIdentifiers(text).find(
+		(identifier) => identifier.type === "isbn"
+	);
+	return found ? toIsbn13(found.value) : null;
+}
+
+/**
+ * ISBN fields of a source note in canonical form, or null if its ISBN is missing or invalid
+ */
+export function normalizedIsbnFields(
+	frontmatter: Record<string, unknown>,
+	hyphenate = false
+): { isbn: string; isbn10?: string } | null {
+	const isbn13 = primaryIsbn(frontmatter.isbn);
+	if (!isbn13) return null;
+
+	const isbn10 = toIsbn10(isbn13);
+	return {
+		isbn: formatIsbn(isbn13, hyphenate),
+		...(isbn10 ? { isbn10 } : {}),
+	};
+}
+
+/**
+ * Compare ISBNs in ISBN-13 form, so the ISBN-10 and ISBN-13 of a book match
+ */
+export function isbnKey(isbn: string): string {
+	return toIsbn13(isbn) || normalizeIsbn(isbn);
+}
+
+/**
+ * Strip "arXiv:" prefixes, arxiv.org links and ".pdf" from an arXiv ID, keeping its version
+ * e.g. "https://arxiv.org/pdf/2301.12345v2.pdf" -> "2301.12345v2"
+ */
+export function normalizeArxivId(id: string): string {
+	return String(id || "")
+		.trim()
+		.replace(
+			/^https?:\/\/(?:www\.|export\.)?arxiv\.org\/(?:abs|pdf)\//i,
+			""
+		)
+		.replace(/^arxiv:\s*/i, "")
+		.replace(/\.pdf$/i, "")
+		.trim();
+}
+
+/**
+ * DOI that arXiv registers for every preprint, independent of its version
+ * e.g. "2301.12345v2" -> "10.48550/arXiv.2301.12345"
+ */
+export function arxivDoi(id: string): string {
+	return `10.48550/arXiv.${normalizeArxivId(id).replace(/v\d+$/, "")}`;
+}
+
+export interface SourceIdentifier {
+	type: "doi" | "isbn" | "arxiv";
+	value: string;
+}
+
+/**
+ * Lookup key of an identifier, e.g. "doi:10.1000/xyz" or "isbn:9780262033848"
+ * ISBN-10s share the key of their ISBN-13
+ * arXiv IDs share the key of their arXiv DOI
+ */
+export function identifierKey(identifier: SourceIdentifier): string {
+	switch (identifier.type) {
+		case "isbn":
+			return `isbn:${isbnKey(identifier.value)}`;
+		case "arxiv":
+			return `doi:${doiKey(arxivDoi(identifier.value))}`;
+		case "doi":
+		default:
+			return `doi:${doiKey(identifier.value)}`;
+	}
+}
+
+// DOIs may contain almost anything; a comma only ends one if another DOI follows,
+// other trailing punctuation is trimmed separately
+const DOI_IN_TEXT = /10\.\d{4,9}\/(?:(?!,\s*10\.)[^\s"'<>])+/g;
+// arXiv:2301.12345v2, arxiv.org/abs/2301.12345, arXiv:hep-th/9901001
+const ARXIV_IN_TEXT =
+	/(?:arxiv\.org\/(?:abs|pdf)\/|arxiv:\s*)(\d{4}\.\d{4,5}(?:v\d+)?|[a-z-]+(?:\.[A-Z]{2})?\/\d{7}(?:v\d+)?)/gi;
+// ISBN-13 starting with 978/979 or ISBN-10, optionally prefixed and hyphenated
+const ISBN_IN_TEXT =
+	/(?:ISBN(?:-1[03])?:?\s*)?\b(97[89][-\s]?(?:\d[-\s]?){9}\d|(?:\d[-\s]?){9}[\dXx])\b/gi;
+
+/**
+ * Remove sentence punctuation and unbalanced closing brackets from the end of a DOI
+ */
+function trimDoi(doi: string): string {
+	let result = doi.replace(/[.,;:!?*_~\]}]+$/, "");
+	while (
+		result.endsWith(")") &&
+		(result.match(/\)/g) || []).length > (result.match(/\(/g) || []).length
+	) {
+		result = result.slice(0, -1).replace(/[.,;:!?]+$/, "");
+	}
+	return result;
+}
+
+/**
+ * Find all DOIs (bare or as doi.org links), arXiv IDs and valid ISBNs in free text or a list
+ * Results are normalized and deduplicated, in order of appearance
+ */
+export function extractIdentifiers(text: string): SourceIdentifier[] {
+	const found: { identifier: SourceIdentifier; index: number }[] = [];
+
+	let match: RegExpExecArray | null;
+	DOI_IN_TEXT.lastIndex = 0;
+	while ((match = DOI_IN_TEXT.exec(text)) !== null) {
+		found.push({
+			identifier: { type: "doi", value: trimDoi(match[0]) },
+			index: match.index,
+		});
+	}
+
+	// Blank out DOIs and arXiv IDs so their digits aren't mistaken for ISBNs
+	const blank = (identifier: string) => " ".repeat(identifier.length);
+	const withoutDois = text.replace(DOI_IN_TEXT, blank);
+	ARXIV_IN_TEXT.lastIndex = 0;
+	while ((match = ARXIV_IN_TEXT.exec(withoutDois)) !== null) {
+		found.push({
+			identifier: { type: "arxiv", value: match[1] },
+			index: match.index,
+		});
+	}
+
+	const withoutArxivIds = withoutDois.replace(ARXIV_IN_TEXT, blank);
+	ISBN_IN_TEXT.lastIndex = 0;
+	while ((match = ISBN_IN_TEXT.exec(withoutArxivIds)) !== null) {
+		if (isValidIsbn(match[1])) {
+			found.push({
+				identifier: { type: "isbn", value: normalizeIsbn(match[1]) },
+				index: match.index,
+			});
+		}
+	}
+
+	// Keep the first mention of every work, e.g. an arXiv ID before its arXiv DOI
+	const seen = new Set<string>();
+	return found
+		.sort((a, b) => a.index - b.index)
+		.map(({ identifier }) => identifier)
+		.filter((identifier) => {
+			const key = identifierKey(identifier);
+			if (seen.has(key)) return false;
+			seen.add(key);
+			return true;
+		});
+}
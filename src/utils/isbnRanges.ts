@@ -0,0 +1,81 @@
+// Registrant ranges of the most common ISBN registration groups, from the ISBN International range message
+// Each range covers the 7 digits after the group prefix and gives the length of the registrant element
+// ISBNs of groups not listed here are stored without hyphens
+
+export type IsbnRange = [start: string, end: string, registrantLength: number];
+
+export const ISBN_REGISTRANT_RANGES: Record<string, IsbnRange[]> = {
+	// English language
+	"978-0": [
+		["0000000", "1999999", 2],
+		["2000000", "2279999", 3],
+		["2280000", "2289999", 4],
+		["2290000", "6479999", 3],
+		["6480000", "6489999", 7],
+		["6490000", "6999999", 3],
+		["7000000", "8499999", 4],
+		["8500000", "8999999", 5],
+		["9000000", "9499999", 6],
+		["9500000", "9999999", 7],
+	],
+	"978-1": [
+		["0000000", "0999999", 2],
+		["1000000", "3999999", 3],
+		["4000000", "5499999", 4],
+		["5500000", "8697999", 5],
+		["8698000", "9989999", 6],
+		["9990000", "9999999", 7],
+	],
+	// French language
+	"978-2": [
+		["0000000", "1999999", 2],
+		["2000000", "3499999", 3],
+		["3500000", "3999999", 5],
+		["4000000", "6999999", 3],
+		["7000000", "8399999", 4],
+		["8400000", "8999999", 5],
+		["9000000", "9499999", 6],
+		["9500000", "9999999", 7],
+	],
+	// German language
+	"978-3": [
+		["0000000", "0299999", 2],
+		["0300000", "0339999", 3],
+		["0340000", "0369999", 4],
+		["0370000", "0399999", 5],
+		["0400000", "1999999", 2],
+		["2000000", "6999999", 3],
+		["7000000", "8499999", 4],
+		["8500000", "8999999", 5],
+		["9000000", "9499999", 6],
+		["9500000", "9539999", 7],
+		["9540000", "9699999", 5],
+		["9700000", "9849999", 7],
+		["9850000", "9999999", 5],
+	],
+	// Japan
+	"978-4": [
+		["0000000", "1999999", 2],
+		["2000000", "6999999", 3],
+		["7000000", "8499999", 4],
+		["8500000", "8999999", 5],
+		["9000000", "9499999", 6],
+		["9500000", "9999999", 7],
+	],
+	// France
+	"979-10": [
+		["0000000", "1999999", 2],
+		["2000000", "6999999", 3],
+		["7000000", "8999999", 4],
+		["9000000", "9759999", 5],
+		["9760000", "9999999", 6],
+	],
+	// Republic of Korea
+	"979-11": [
+		["0000000", "2499999", 2],
+		["2500000", "5499999", 3],
+		["5500000", "8499999", 4],
+		["8500000", "9499999", 5],
+		["9500000", "9999999", 6],
+	],
+};
@@ -0,0 +1,224 @@
+// Structured person and organization names, parsed from and stored as BibTeX-style strings
+
+/**
+ * A name with CSL-JSON name fields
+ * Organizations and other names that must not be split only have `literal`
+ */
+export interface PersonName {
+	family?: string;
+	given?: string;
+	"non-dropping-particle"?: string;
+	"dropping-particle"?: string;
+	suffix?: string;
+	literal?: string;
+}
+
+// CSL name variables stored as name lists in frontmatter, under the same key
+export const NAME_ROLES = [
+	"author",
+	"editor",
+	"translator",
+	"container-author",
+	"collection-editor",
+	"editorial-director",
+	"director",
+	"interviewer",
+	"illustrator",
+	"composer",
+	"original-author",
+	"recipient",
+	"reviewed-author",
+];
+
+// Lowercase words like "van", "der", "de", "von" are particles
+function isParticle(word: string): boolean {
+	return /^[a-zß-ÿ]/.test(word) && !/^[a-z]\.$/.test(word);
+}
+
+function clean(name: PersonName): PersonName {
+	const result: PersonName = {};
+	(Object.keys(name) as (keyof PersonName)[]).forEach((key) => {
+		const value = name[key]?.trim();
+		if (value) result[key] = value;
+	});
+	return result;
+}
+
+/**
+ * Split leading particles ("van der") from a family name ("Berg")
+ */
+function splitParticle(words: string[]): PersonName {
+	let index = 0;
+	while (index < words.length - 1 && isParticle(words[index])) {
+		index++;
+	}
+	return {
+		"non-dropping-particle": words.slice(0, index).join(" "),
+		family: words.slice(index).join(" "),
+	};
+}
+
+// "Jr.", "Sr." and generation numbers after a name in reading order
+const NAME_SUFFIX = /^(?:jr|sr)\.?$|^(?:ii|iii|iv)$/i;
+
+/**
+ * "Given particle Family": given names end at the first particle
+ */
+function parseReadingOrder(text: string): PersonName {
+	const words = text.split(" ");
+	if (words.length === 1) return { family: words[0] };
+
+	let particleStart = words.findIndex(
+		(word, i) => i < words.length - 1 && isParticle(word)
+	);
+	if (particleStart === -1) particleStart = words.length - 1;
+
+	return clean({
+		given: words.slice(0, particleStart).join(" "),
+		...splitParticle(words.slice(particleStart)),
+	});
+}
+
+/**
+ * Parse a name the way BibTeX does:
+ * "Given Family", "Given particle Family", "particle Family, Given",
+ * "Family, Suffix, Given" and "{Literal Organization Name}"
+ * "Given Family, Jr." is read as a name with a suffix, not as "Family, Given"
+ * CSL-style name objects are passed through
+ */
+export function parseName(name: string | PersonName): PersonName {
+	if (typeof name !== "string") {
+		return clean(name || {});
+	}
+
+	const text = name.trim().replace(/\s+/g, " ");
+	if (!text) return {};
+
+	const braced = text.match(/^\{(.*)\}$/);
+	if (braced) return { literal: braced[1].trim() };
+
+	const parts = text.split(",").map((part) => part.trim());
+	if (parts.length >= 3) {
+		return clean({
+			...splitParticle(parts[0].split(" ")),
+			suffix: parts[1],
+			given: parts.slice(2).join(", "),
+		});
+	}
+	if (parts.length === 2 && NAME_SUFFIX.test(parts[1])) {
+		return clean({ ...parseReadingOrder(parts[0]), suffix: parts[1] });
+	}
+	if (parts.length === 2) {
+		return clean({
+			...splitParticle(parts[0].split(" ")),
+			given: parts[1],
+		});
+	}
+
+	return parseReadingOrder(text);
+}
+
+function formatUnchecked(name: PersonName): string {
+	if (name.literal) return `{${name.literal}}`;
+
+	const family = [
+		name["dropping-particle"],
+		name["non-dropping-particle"],
+		name.family,
+	]
+		.filter((part) => part)
+		.join(" ");
+	return [family, name.suffix, name.given]
+		.filter((part) => part)
+		.join(", ");
+}
+
+/**
+ * Format a name as "particle Family, Suffix, Given" so that parseName restores it
+ * Names that would not survive the round trip are kept whole as "{Literal}"
+ */
+export function formatName(name: string | PersonName): string {
+	const parsed = parseName(name);
+	const formatted = formatUnchecked(parsed);
+	if (!formatted || parsed.literal) return formatted;
+
+	const reparsed = formatUnchecked(parseName(formatted));
+	return reparsed === formatted ? formatted : `{${displayName(parsed)}}`;
+}
+
+/**
+ * Name in reading order, e.g. "Jan van der Berg" or "World Health Organization"
+ */
+export function displayName(name: string | PersonName): string {
+	const parsed = parseName(name);
+	if (parsed.literal) return parsed.literal;
+
+	const words = [
+		parsed.given,
+		parsed["dropping-particle"],
+		parsed["non-dropping-particle"],
+		parsed.family,
+	]
+		.filter((part) => part)
+		.join(" ");
+	return parsed.suffix ? `${words}, ${parsed.suffix}` : words;
+}
+
+/**
+ * Family name without particles, used for citekeys and matching
+ * Organizations use their full name
+ */
+export function familyName(name: string | PersonName): string {
+	const parsed = parseName(name);
+	return parsed.family || parsed.literal || parsed.given || "";
+}
+
+/**
+ * Sort key that files "van der Berg, Jan" under B, like CSL's demoted particles
+ */
+export function nameSortKey(name: string | PersonName): string {
+	const parsed = parseName(name);
+	return [
+		parsed.family || parsed.literal,
+		parsed["non-dropping-particle"],
+		parsed.given,
+		parsed.suffix,
+	]
+		.filter((part) => part)
+		.join(" ")
+		.toLowerCase();
+}
+
+/**
+ * Read a frontmatter name field (list or single string) as structured names
+ */
+export function parseNameList(value: unknown): PersonName[] {
+	const names: unknown[] = Array.isArray(value) ? value : value ? [value] : [];
+	return names
+		.map((name) =>
+			parseName(
+				typeof name === "object" ? (name as PersonName) : String(name)
+			)
+		)
+		.filter((name) => Object.keys(name).length > 0);
+}
+
+/**
+ * Template variables for every contributor role: "{{editorList}}" in reading order,
+ * plus empty "{{editor}}" / "{{editorArray}}" values for roles the source doesn't have
+ */
+export function nameTemplateVariables(
+	source: object
+): Record<string, unknown> {
+	const fields = source as Record<string, unknown>;
+	const variables: Record<string, unknown> = {};
+	NAME_ROLES.forEach((role) => {
+		const names = parseNameList(fields[role]);
+		variables[`${role}List`] = names.map(displayName).join(", ");
+		if (names.length === 0) {
+			variables[role] = [];
+			variables[`${role}Array`] = "[]";
+		}
+	});
+	return variables;
+}
@@ -0,0 +1,203 @@
+// PubMed import through NCBI E-utilities
+import { requestUrl } from "obsidian";
+import { PersonName } from "./names";
+import { xmlAttribute, xmlElements, xmlText } from "./xml";
+
+const EUTILS_URL = "https://eutils.ncbi.nlm.nih.gov/entrez/eutils";
+// NCBI asks tools to identify themselves
+const EUTILS_TOOL = "obsidian-bibliography-manager";
+
+const MONTHS = [
+	"jan",
+	"feb",
+	"mar",
+	"apr",
+	"may",
+	"jun",
+	"jul",
+	"aug",
+	"sep",
+	"oct",
+	"nov",
+	"dec",
+];
+
+export interface PubmedId {
+	type: "pmid" | "pmcid";
+	// Digits only for PMIDs, "PMC" followed by digits for PMCIDs
+	value: string;
+}
+
+/**
+ * Fetch the response body of a URL, injectable so tests can use canned responses
+ */
+export type PubmedFetcher = (url: string) => Promise<string>;
+
+export const requestPubmed: PubmedFetcher = async (url) =>
+	(await requestUrl({ url })).text;
+
+/**
+ * Read a PMID or PMCID from "PMID: 33301246", "PMC7745181" or a PubMed / PMC link
+ */
+export function parsePubmedId(input: string): PubmedId | null {
+	const text = String(input || "").trim();
+
+	const pmcid = text.match(/^(?:pmcid:\s*)?(?:.*\/articles\/)?PMC(\d+)\/?$/i);
+	if (pmcid) return { type: "pmcid", value: `PMC${pmcid[1]}` };
+
+	const pmid = text.match(
+		/^(?:pmid:\s*|https?:\/\/(?:www\.)?(?:pubmed\.ncbi\.nlm\.nih\.gov|ncbi\.nlm\.nih\.gov\/pubmed)\/)?(\d{1,9})\/?$/i
+	);
+	if (pmid) return { type: "pmid", value: pmid[1] };
+
+	return null;
+}
+
+export function pubmedFetchUrl(pmid: string): string {
+	return `${EUTILS_URL}/efetch.fcgi?db=pubmed&retmode=xml&tool=${EUTILS_TOOL}&id=${pmid}`;
+}
+
+export function pmcLinkUrl(pmcid: string): string {
+	return `${EUTILS_URL}/elink.fcgi?dbfrom=pmc&db=pubmed&linkname=pmc_pubmed&retmode=json&tool=${EUTILS_TOOL}&id=${pmcid.replace(
+		/^PMC/i,
+		""
+	)}`;
+}
+
+/**
+ * Read the PMID linked to a PMC article from an ELink JSON response
+ */
+export function parsePmcLink(json: string): string | null {
+	const data = JSON.parse(json);
+	const links = data?.linksets?.[0]?.linksetdbs?.find(
+		(linkset: { linkname?: string }) => linkset.linkname === "pmc_pubmed"
+	)?.links;
+	return Array.isArray(links) && links.length > 0 ? String(links[0]) : null;
+}
+
+function parseAuthor(author: string): PersonName {
+	const collective = xmlText(author, "CollectiveName");
+	if (collective) return { literal: collective };
+
+	const name: PersonName = {
+		family: xmlText(author, "LastName"),
+		given: xmlText(author, "ForeName") || xmlText(author, "Initials"),
+		suffix: xmlText(author, "Suffix"),
+	};
+	(Object.keys(name) as (keyof PersonName)[]).forEach((key) => {
+		if (!name[key]) delete name[key];
+	});
+	return name;
+}
+
+/**
+ * "2020 Dec 31", a MedlineDate like "1998 Dec-1999 Jan" or just a year, as CSL date parts
+ */
+function parsePubDate(pubDate: string): number[][] | undefined {
+	const year = xmlText(pubDate, "Year");
+	if (year) {
+		const parts = [parseInt(year)];
+		const month = xmlText(pubDate, "Month");
+		const monthNumber = /^\d+$/.test(month)
+			? parseInt(month)
+			: MONTHS.indexOf(month.slice(0, 3).toLowerCase()) + 1;
+		if (monthNumber > 0) {
+			parts.push(monthNumber);
+			const day = parseInt(xmlText(pubDate, "Day"));
+			if (day > 0) parts.push(day);
+		}
+		return [parts];
+	}
+
+	const medlineYear = xmlText(pubDate, "MedlineDate").match(/\d{4}/);
+	return medlineYear ? [[parseInt(medlineYear[0])]] : undefined;
+}
+
+/**
+ * Convert the first article of a PubMed efetch XML response to CSL-JSON
+ * MeSH descriptors become keywords
+ */
+export function pubmedArticleToCsl(xml: string): Record<string, unknown> {
+	// Cited references carry their own article IDs, so leave them out
+	const article = xmlElements(xml, "PubmedArticle")[0]?.replace(
+		/<ReferenceList[\s\S]*<\/ReferenceList>/g,
+		""
+	);
+	if (!article) {
+		throw new Error("No PubMed article found for this ID");
+	}
+
+	const journal = xmlElements(article, "Journal")[0] || "";
+	const articleIds = xmlElements(article, "ArticleId");
+	const articleId = (type: string) => {
+		const id = articleIds.find((el) => xmlAttribute(el, "IdType") === type);
+		return id ? xmlText(id, "ArticleId") : "";
+	};
+
+	const abstract = xmlElements(article, "AbstractText")
+		.map((section) => {
+			const label = xmlAttribute(section, "Label");
+			const text = xmlText(section, "AbstractText");
+			return label ? `${label}: ${text}` : text;
+		})
+		.join(" ");
+
+	const dateParts = parsePubDate(xmlElements(journal, "PubDate")[0] || "");
+	const csl: Record<string, unknown> = {
+		type: "article-journal",
+		// PubMed ends titles with a period
+		title: xmlText(article, "ArticleTitle").replace(/\.$/, ""),
+		author: xmlElements(
+			xmlElements(article, "AuthorList")[0] || "",
+			"Author"
+		)
+			.map(parseAuthor)
+			.filter((name) => Object.keys(name).length > 0),
+		"container-title": xmlText(journal, "Title"),
+		"container-title-short": xmlText(journal, "ISOAbbreviation"),
+		ISSN: xmlText(journal, "ISSN"),
+		volume: xmlText(journal, "Volume"),
+		issue: xmlText(journal, "Issue"),
+		page: xmlText(article, "MedlinePgn"),
+		abstract,
+		DOI: articleId("doi"),
+		PMID: xmlText(article, "PMID"),
+		PMCID: articleId("pmc"),
+		keyword: xmlElements(article, "MeshHeading").map((heading) =>
+			xmlText(heading, "DescriptorName")
+		),
+	};
+	if (dateParts) csl.issued = { "date-parts": dateParts };
+
+	Object.keys(csl).forEach((key) => {
+		const value = csl[key];
+		if (value === "" || (Array.isArray(value) && value.length === 0)) {
+			delete csl[key];
+		}
+	});
+	return csl;
+}
+
+/**
+ * Look up a PMID or PMCID and return its CSL-JSON data
+ */
+export async function fetchPubmedCitation(
+	input: string,
+	fetcher: PubmedFetcher = requestPubmed
+): Promise<Record<string, unknown>> {
+	const id = parsePubmedId(input);
+	if (!id) {
+		throw new Error(`Not a PMID or PMCID: ${input}`);
+	}
+
+	let pmid = id.value;
+	if (id.type === "pmcid") {
+		const linked = parsePmcLink(await fetcher(pmcLinkUrl(id.value)));
+		if (!linked) {
+			throw new Error(`No PubMed record linked to ${id.value}`);
+		}
+		pmid = linked;
+	}
+
+	return pubmedArticleToCsl(await fetcher(pubmedFetchUrl(pmid)));
+}
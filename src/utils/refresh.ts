@@ -0,0 +1,154 @@
+// Re-fetching the metadata of existing source notes and comparing it with their frontmatter
+import { lookupIdentifier, lookupUrl } from "./bulkImport";
+import { DATE_FIELDS, normalizeDate } from "./dates";
+import {
+	SourceIdentifier,
+	arxivDoi,
+	doiKey,
+	isbnKey,
+	normalizeDoi,
+} from "./identifiers";
+
+// Frontmatter fields that a refresh may update; citekey, aliases, filelink and notes are left alone
+export const REFRESH_FIELDS = [
+	"title",
+	"author",
+	"editor",
+	"translator",
+	"year",
+	"date",
+	"bibtype",
+	"journal",
+	"shortjournal",
+	"publisher",
+	"volume",
+	"number",
+	"pages",
+	"doi",
+	"isbn",
+	"arxiv",
+	"pmid",
+	"pmcid",
+	"url",
+	"abstract",
+	"keywords",
+];
+
+export type RefreshTarget = SourceIdentifier | { type: "url"; value: string };
+
+export interface FieldChange {
+	field: string;
+	current: unknown;
+	incoming: unknown;
+}
+
+function isEmptyValue(value: unknown): boolean {
+	return (
+		value === undefined ||
+		value === null ||
+		value === "" ||
+		(Array.isArray(value) && value.length === 0)
+	);
+}
+
+// Compare 2020 with "2020" and YAML lists with arrays by their text
+function comparableValue(value: unknown): string {
+	if (isEmptyValue(value)) return "";
+	if (Array.isArray(value)) {
+		return value.map((item) => String(item).trim()).join("\n");
+	}
+	return String(value).trim();
+}
+
+/**
+ * The identifier to re-resolve a source by: its DOI, arXiv ID, ISBN or URL, in that order
+ * arXiv IDs win over the arXiv DOI, since the arXiv API has the richer record
+ */
+export function refreshTarget(
+	frontmatter: Record<string, unknown>
+): RefreshTarget | null {
+	const doi = frontmatter.doi ? normalizeDoi(String(frontmatter.doi)) : "";
+	const arxiv = frontmatter.arxiv ? String(frontmatter.arxiv).trim() : "";
+
+	if (
+		doi &&
+		!(arxiv && doi.toLowerCase() === arxivDoi(arxiv).toLowerCase())
+	) {
+		return { type: "doi", value: doi };
+	}
+	if (arxiv) return { type: "arxiv", value: arxiv };
+	if (frontmatter.isbn) {
+		return { type: "isbn", value: String(frontmatter.isbn).trim() };
+	}
+	if (frontmatter.url) {
+		return { type: "url", value: String(frontmatter.url).trim() };
+	}
+	return null;
+}
+
+/**
+ * Look up current metadata for a source note through the import pipeline
+ */
+export async function fetchRefreshedSource(
+	frontmatter: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+	const target = refreshTarget(frontmatter);
+	if (!target) {
+		throw new Error("The source has no DOI, arXiv ID, ISBN or URL");
+	}
+
+	return target.type === "url"
+		? lookupUrl(target.value, "default")
+		: lookupIdentifier(target, "default");
+}
+
+// Dates are compared in EDTF and identifiers by their canonical key, so a
+// hyphenated ISBN or a doi.org link is not reported as a change
+function comparableField(field: string, value: unknown): string {
+	if (isEmptyValue(value)) return "";
+	if (DATE_FIELDS.includes(field)) return normalizeDate(value);
+	if (field === "isbn") return isbnKey(String(value));
+	if (field === "doi") return doiKey(String(value));
+	return comparableValue(value);
+}
+
+/**
+ * Fields where looked-up source data differs from the frontmatter
+ * Fields the lookup did not return are not reported, so a refresh never clears a value
+ */
+export function diffSourceFields(
+	frontmatter: Record<string, unknown>,
+	sourceData: Record<string, unknown>
+): FieldChange[] {
+	return REFRESH_FIELDS.filter(
+		(field) =>
+			comparableField(field, sourceData[field]) !== "" &&
+			comparableField(field, sourceData[field]) !==
+				comparableField(field, frontmatter[field])
+	).map((field) => ({
+		field,
+		current: frontmatter[field],
+		incoming: DATE_FIELDS.includes(field)
+			? normalizeDate(sourceData[field])
+			: sourceData[field],
+	}));
+}
+
+/**
+ * Whether a change only fills a field that is empty in the note
+ */
+export function isFillingChange(change: FieldChange): boolean {
+	return isEmptyValue(change.current);
+}
+
+/**
+ * Write accepted changes into a frontmatter object, e.g. inside processFrontMatter
+ */
+export function applyFieldChanges(
+	frontmatter: Record<string, unknown>,
+	changes: FieldChange[]
+): void {
+	changes.forEach(({ field, incoming }) => {
+		frontmatter[field] = incoming;
+	});
+}
@@ -1,4 +1,6 @@
-import BibliographyManagerPlugin from "src/main";
+import BibliographyManagerPlugin from "../main";
+import { FORMAT_EXTENSION_MAPPING } from "../types/interfaces";
+import { BibliographySettings } from "../types/settings";
 
 export async function initializeSourcesFolder(
 	plugin: BibliographyManagerPlugin
@@ -21,3 +23,16 @@ export async function initializeSourcesFolder(
 		// Don't throw error - plugin can work without the sources folder
 	}
 }
+
+/**
+ * Full vault path of the configured bibliography file, with extension based on format
+ */
+export function getBibliographyOutputPath(
+	settings: BibliographySettings
+): string {
+	const extension =
+		FORMAT_EXTENSION_MAPPING[settings.bibliographyFormat] || ".bib";
+	const outputFolder =
+		settings.bibliographyOutputFolder || settings.sourcesFolder;
+	return `${outputFolder}/${settings.bibliographyFilename}${extension}`;
+}
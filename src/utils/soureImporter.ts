@@ -1,18 +1,46 @@
-import { App, TFile, TFolder, stringifyYaml } from "obsidian";
+import { App, Notice, TFile, TFolder, stringifyYaml } from "obsidian";
+import { BibliographySettings, CitekeySuffixScheme } from "../types/settings";
 import { CitekeyGenerator } from "./citekey";
+import { AttachmentSettings, attachDownload } from "./attachmentFiles";
+import { formatIsbn } from "./identifiers";
+import { normalizeDateFields } from "./dates";
+import { computedTemplateVariables, renderTemplate } from "./templateEngine";
+import {
+	NAME_ROLES,
+	displayName,
+	nameTemplateVariables,
+	parseNameList,
+} from "./names";
+
+export type ImportSettings = AttachmentSettings &
+	Pick<BibliographySettings, "hyphenateIsbn">;
 
 export class SourceImporter {
+	// Citekeys created by this importer, which the metadata cache may not know yet
+	private createdCitekeys = new Set<string>();
+
 	constructor(
 		private app: App,
 		private sourcesFolder: string,
-		private template?: string
+		private template?: string,
+		private citekeySuffixScheme: CitekeySuffixScheme = "letters",
+		private citekeyPattern = "",
+		private importSettings?: ImportSettings
 	) {}
 
 	async createSourceFile(sourceData: any, mediaType: string): Promise<TFile> {
-		const citekey = CitekeyGenerator.generateFromTitleAndAuthors(
-			sourceData.title,
-			sourceData.author || [],
-			sourceData.year
+		// Keep citekeys that came with the data (e.g. from a .bib file)
+		const citekey = CitekeyGenerator.makeUnique(
+			sourceData.citekey ||
+				CitekeyGenerator.generateFromTitleAndAuthors(
+					sourceData.title,
+					sourceData.author || [],
+					sourceData.year,
+					this.citekeyPattern,
+					sourceData.journal
+				),
+			this.getExistingCitekeys(),
+			this.citekeySuffixScheme
 		);
 
 		// Create readable filename from title
@@ -31,18 +59,54 @@ export class SourceImporter {
 		// Ensure directory exists
 		await this.ensureDirectoryExists(targetFolder);
 
+		// Download the full text first so the note can link to it
+		const source = { ...sourceData, citekey };
+		if (source.isbn) {
+			source.isbn = formatIsbn(
+				source.isbn,
+				this.importSettings?.hyphenateIsbn
+			);
+		}
+		normalizeDateFields(source);
+		if (this.importSettings) {
+			await attachDownload(
+				this.app,
+				this.importSettings,
+				source,
+				filePath
+			);
+		}
+
 		// Use template if available, otherwise fall back to default markdown generation
 		const content =
 			this.template && this.template.trim()
-				? this.generateSourceFromTemplate({ ...sourceData, citekey })
-				: this.generateSourceMarkdown({ ...sourceData, citekey });
+				? this.generateSourceFromTemplate(source)
+				: this.generateSourceMarkdown(source);
 
 		// Create file in vault
 		const newFile = await this.app.vault.create(filePath, content);
+		this.createdCitekeys.add(citekey);
 
 		return newFile;
 	}
 
+	/**
+	 * Citekeys of all notes in the sources folder plus those created in this session
+	 */
+	private getExistingCitekeys(): Set<string> {
+		const existing = new Set<string>(this.createdCitekeys);
+		const folderPrefix = this.sourcesFolder.replace(/\/+$/, "") + "/";
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (!file.path.startsWith(folderPrefix)) continue;
+			const citekey =
+				this.app.metadataCache.getFileCache(file)?.frontmatter?.citekey;
+			if (citekey) existing.add(String(citekey));
+		}
+
+		return existing;
+	}
+
 	private async ensureDirectoryExists(dirPath: string): Promise<void> {
 		if (!(await this.app.vault.adapter.exists(dirPath))) {
 			await this.app.vault.adapter.mkdir(dirPath);
@@ -60,14 +124,28 @@ export class SourceImporter {
 		};
 
 		// Add optional fields only if they exist
+		NAME_ROLES.forEach((role) => {
+			if (role !== "author" && source[role]?.length) {
+				yaml[role] = source[role];
+			}
+		});
+		if (source.date) yaml.date = source.date;
+		if (source.accessed) yaml.accessed = source.accessed;
 		if (source.doi) yaml.doi = source.doi;
 		if (source.journal) yaml.journal = source.journal;
+		if (source.shortjournal) yaml.shortjournal = source.shortjournal;
 		if (source.publisher) yaml.publisher = source.publisher;
 		if (source.pages) yaml.pages = source.pages;
 		if (source.volume) yaml.volume = source.volume;
 		if (source.issue) yaml.issue = source.issue;
 		if (source.isbn) yaml.isbn = source.isbn;
+		if (source.isbn10) yaml.isbn10 = source.isbn10;
+		if (source.arxiv) yaml.arxiv = source.arxiv;
+		if (source.pmid) yaml.pmid = source.pmid;
+		if (source.pmcid) yaml.pmcid = source.pmcid;
+		if (source.version) yaml.version = source.version;
 		if (source.url) yaml.url = source.url;
+		if (source.filelink) yaml.filelink = source.filelink;
 		if (source.abstract) yaml.abstract = source.abstract;
 		if (source.keywords) yaml.keywords = source.keywords;
 
@@ -79,7 +157,7 @@ ${yamlString}
 
 # ${source.title}
 
-**Authors:** ${(source.author || []).join(", ")}
+**Authors:** ${parseNameList(source.author).map(displayName).join(", ")}
 **Year:** ${source.year}
 ${source.journal ? `**Journal:** ${source.journal}` : ""}
 ${source.publisher ? `**Publisher:** ${source.publisher}` : ""}
@@ -131,9 +209,16 @@ ${source.abstract || "<!-- Add abstract here -->"}
 		});
 
 		// Add helper fields
-		templateData.authorList = Array.isArray(source.author)
-			? source.author.join(", ")
-			: source.author || "";
+		// Name lists for author, editor, translator and other roles
+		Object.assign(templateData, nameTemplateVariables(source));
+
+		// Built-in variables like firstAuthorLastName, unless the source has its own
+		const computed = computedTemplateVariables(source);
+		Object.keys(computed).forEach((key) => {
+			if (templateData[key] === undefined || templateData[key] === "") {
+				templateData[key] = computed[key];
+			}
+		});
 
 		// Add sanitized filename for use in templates
 		templateData.filename = CitekeyGenerator.sanitizeFilename(source.title);
@@ -155,13 +240,14 @@ ${source.abstract || "<!-- Add abstract here -->"}
 				return this.generateSourceMarkdown(source);
 			}
 
-			const result = this.renderTemplateWithRegex(
-				templateToRender,
-				templateData
-			);
-			return result;
+			return renderTemplate(templateToRender, templateData);
 		} catch (error) {
 			console.error("ERROR rendering template:", error);
+			new Notice(
+				`Template error: ${
+					error instanceof Error ? error.message : "Unknown error"
+				}\nUsing default note layout.`
+			);
 			// Fall back to default markdown generation
 			console.warn(
 				"Falling back to default markdown generation due to template error"
@@ -170,48 +256,6 @@ ${source.abstract || "<!-- Add abstract here -->"}
 		}
 	}
 
-	private renderTemplateWithRegex(
-		template: string,
-		data: Record<string, any>
-	): string {
-		try {
-			let result = template;
-
-			// Replace simple {{variable}} placeholders only
-			result = result.replace(/\{\{([^}]+)\}\}/g, (match, fieldPath) => {
-				const trimmedPath = fieldPath.trim();
-				try {
-					// Handle nested paths like "data.field"
-					const value = this.getNestedValue(data, trimmedPath);
-					const resultValue =
-						value !== undefined && value !== null
-							? String(value)
-							: "";
-					return resultValue;
-				} catch (innerError) {
-					console.error(
-						`ERROR processing variable "${trimmedPath}":`,
-						innerError
-					);
-					return "";
-				}
-			});
-
-			return result;
-		} catch (error) {
-			console.error("CRITICAL ERROR in renderTemplateWithRegex:", error);
-			throw error;
-		}
-	}
-
-	private getNestedValue(obj: any, path: string): any {
-		return path.split(".").reduce((current, key) => {
-			return current && current[key] !== undefined
-				? current[key]
-				: undefined;
-		}, obj);
-	}
-
 	private formatYamlArray(array: any[]): string {
 		if (!array || array.length === 0) {
 			return "[]";
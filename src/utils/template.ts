@@ -1,6 +1,22 @@
-import { Notice } from "obsidian";
+import { App, Notice } from "obsidian";
 import BibliographyManagerPlugin from "src/main";
 import { DEFAULT_SETTINGS } from "src/types/settings";
+import {
+	IncludeLoader,
+	expandIncludes,
+	validateTemplate,
+} from "./templateEngine";
+
+/**
+ * Resolve {{> name}} like a wiki link from the including template, e.g. {{> Templates/Authors}}
+ */
+export function vaultIncludeLoader(app: App): IncludeLoader {
+	return async (name, from) => {
+		const file = app.metadataCache.getFirstLinkpathDest(name, from);
+		if (!file) return null;
+		return { path: file.path, content: await app.vault.cachedRead(file) };
+	};
+}
 
 export async function loadTemplateFile(
 	plugin: BibliographyManagerPlugin
@@ -23,7 +39,14 @@ export async function loadTemplateFile(
 				const templateContent = await plugin.app.vault.adapter.read(
 					plugin.settings.templateFile
 				);
-				plugin.settings.sourceNoteTemplate = templateContent;
+				const template = await expandIncludes(
+					templateContent,
+					vaultIncludeLoader(plugin.app),
+					plugin.settings.templateFile
+				);
+				// Report syntax errors once here instead of for every imported note
+				validateTemplate(template);
+				plugin.settings.sourceNoteTemplate = template;
 				console.log(
 					`Loaded template from file: ${plugin.settings.templateFile}`
 				);
@@ -38,6 +61,11 @@ export async function loadTemplateFile(
 		}
 	} catch (error) {
 		console.error("Error loading template file:", error);
+		new Notice(
+			`Error loading template file: ${
+				error instanceof Error ? error.message : "Unknown error"
+			}\nUsing default template.`
+		);
 		// Fall back to default template
 		plugin.settings.sourceNoteTemplate =
 			DEFAULT_SETTINGS.sourceNoteTemplate;
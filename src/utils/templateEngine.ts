@@ -0,0 +1,455 @@
+// Template language for source notes: {{var | filter}}, {{#if}}, {{#unless}}, {{#each}}, {{else}},
+// {{! comments }} and {{> includes}}. Templates can only read values, never run code.
+import { today } from "./dates";
+import { applyTemplateFilter, isTemplateFilter } from "./templateFilters";
+import { familyName, parseNameList } from "./names";
+
+// A variable with filters, e.g. {{author | join:"; "}}
+interface TemplateExpression {
+	path: string;
+	filters: { name: string; args: string[] }[];
+}
+
+interface BlockNode {
+	type: "block";
+	kind: BlockKind;
+	// Expression as written, for error messages
+	source: string;
+	expression: TemplateExpression;
+	body: TemplateNode[];
+	inverse: TemplateNode[];
+}
+
+type TemplateNode =
+	| { type: "text"; value: string }
+	| { type: "variable"; expression: TemplateExpression }
+	| BlockNode;
+
+type BlockKind = "if" | "unless" | "each";
+
+interface LoopFrame {
+	item: unknown;
+	index: number;
+	length: number;
+}
+
+export interface TemplateInclude {
+	path: string;
+	content: string;
+}
+
+/**
+ * Loads an included template by the name used in {{> name}}
+ * @param from - Path of the template that contains the include
+ */
+export type IncludeLoader = (
+	name: string,
+	from: string
+) => Promise<TemplateInclude | null>;
+
+const TAG = /\{\{([^}]+)\}\}/g;
+const INCLUDE_TAG = /\{\{>\s*([^}]+?)\s*\}\}/g;
+// Block, else and comment tags on a line of their own leave no empty line behind
+const STANDALONE_TAG =
+	/^[ \t]*(\{\{\s*(?:[#/]\s*(?:if|unless|each)\b[^}]*|![^}]*|else\s*)\}\})[ \t]*(?:\r?\n|$)/gm;
+const BLOCK_KINDS = ["if", "unless", "each"];
+
+const MAX_INCLUDE_DEPTH = 10;
+
+function allMatches(text: string, pattern: RegExp): RegExpExecArray[] {
+	// A fresh copy, so nested calls don't share lastIndex
+	const regex = new RegExp(pattern.source, pattern.flags);
+	const matches: RegExpExecArray[] = [];
+	let match: RegExpExecArray | null;
+	while ((match = regex.exec(text)) !== null) {
+		matches.push(match);
+	}
+	return matches;
+}
+
+/**
+ * Replace {{> name}} with the content of the included template, recursively
+ * Includes are resolved before rendering, so they see the same variables as the including template
+ */
+export async function expandIncludes(
+	template: string,
+	load: IncludeLoader,
+	from = "",
+	stack: string[] = []
+): Promise<string> {
+	let result = "";
+	let lastIndex = 0;
+
+	for (const match of allMatches(template, INCLUDE_TAG)) {
+		const name = match[1];
+		const include = await load(name, from);
+		if (!include) {
+			throw new Error(`Template include not found: ${name}`);
+		}
+		if (stack.includes(include.path) || include.path === from) {
+			throw new Error(`Template includes itself: ${include.path}`);
+		}
+		if (stack.length >= MAX_INCLUDE_DEPTH) {
+			throw new Error(`Template includes are nested too deeply: ${name}`);
+		}
+
+		const expanded = await expandIncludes(
+			include.content.replace(/\r?\n$/, ""),
+			load,
+			include.path,
+			[...stack, from]
+		);
+		result += template.slice(lastIndex, match.index) + expanded;
+		lastIndex = match.index + match[0].length;
+	}
+
+	return result + template.slice(lastIndex);
+}
+
+/**
+ * Split on a separator that is not inside "double" or 'single' quotes
+ */
+function splitOutsideQuotes(text: string, separator: string): string[] {
+	const parts: string[] = [];
+	let quote = "";
+	let current = "";
+	for (const char of text) {
+		if (quote) {
+			if (char === quote) quote = "";
+		} else if (char === '"' || char === "'") {
+			quote = char;
+		} else if (char === separator) {
+			parts.push(current);
+			current = "";
+			continue;
+		}
+		current += char;
+	}
+	return [...parts, current];
+}
+
+function unquote(text: string): string {
+	const value = text.trim();
+	const match = value.match(/^(["'])([\s\S]*)\1$/);
+	return match ? match[2] : value;
+}
+
+/**
+ * Parse 'join:"; "' into a filter name and its arguments
+ */
+function parseFilter(text: string): { name: string; args: string[] } {
+	const trimmed = text.trim();
+	const separator = trimmed.indexOf(":");
+	if (separator < 0) return { name: trimmed, args: [] };
+
+	const args = splitOutsideQuotes(trimmed.slice(separator + 1), ",");
+	return {
+		name: trimmed.slice(0, separator).trim(),
+		args: args.map(unquote),
+	};
+}
+
+/**
+ * Parse "author | join:\"; \"" into a path and filters
+ * As in Obsidian's core templates, "date:DD.MM.YYYY" is today's date: short for "importDate | date:DD.MM.YYYY"
+ * @returns null if a filter is unknown, e.g. in Handlebars or Templater text
+ */
+function parseExpression(text: string): TemplateExpression | null {
+	const [head, ...filterTexts] = splitOutsideQuotes(text, "|");
+	const filters = filterTexts.map(parseFilter);
+	if (!filters.every((filter) => isTemplateFilter(filter.name))) {
+		return null;
+	}
+
+	const shorthand = head.match(/^\s*date:(.*)$/);
+	if (shorthand) {
+		return {
+			path: "importDate",
+			filters: [
+				{ name: "date", args: [unquote(shorthand[1])] },
+				...filters,
+			],
+		};
+	}
+	return { path: head.trim(), filters };
+}
+
+function parseTemplate(template: string): TemplateNode[] {
+	const root: TemplateNode[] = [];
+	const open: {
+		node: BlockNode;
+		inElse: boolean;
+	}[] = [];
+	const current = () => {
+		const block = open[open.length - 1];
+		if (!block) return root;
+		return block.inElse ? block.node.inverse : block.node.body;
+	};
+
+	const source = template.replace(STANDALONE_TAG, "$1");
+	let lastIndex = 0;
+	for (const match of allMatches(source, TAG)) {
+		const index = match.index;
+		if (index > lastIndex) {
+			current().push({
+				type: "text",
+				value: source.slice(lastIndex, index),
+			});
+		}
+		lastIndex = index + match[0].length;
+
+		const tag = match[1].trim();
+		// Tags this language doesn't know, e.g. "{{#tag}}" or "{{x|y}}", stay as written
+		const literal = () =>
+			current().push({ type: "text", value: match[0] });
+		if (tag.startsWith("!") || tag.startsWith(">")) {
+			// Comments, and includes that were not expanded, render nothing
+			continue;
+		}
+
+		if (tag.startsWith("#")) {
+			// "{{# if doi}}" is read like "{{#if doi}}"
+			const block = tag.match(/^#\s*(if|unless|each)\s+(.+)$/);
+			if (!block) {
+				literal();
+				continue;
+			}
+			const expression = parseExpression(block[2]);
+			if (!expression) {
+				throw new Error(
+					`Unknown template filter in {{#${block[1]} ${block[2]}}}`
+				);
+			}
+			const node: BlockNode = {
+				type: "block",
+				kind: block[1] as BlockKind,
+				source: block[2],
+				expression,
+				body: [],
+				inverse: [],
+			};
+			current().push(node);
+			open.push({ node, inElse: false });
+		} else if (tag.startsWith("/")) {
+			const kind = tag.slice(1).trim();
+			if (!BLOCK_KINDS.includes(kind)) {
+				literal();
+				continue;
+			}
+			const block = open.pop();
+			if (!block || block.node.kind !== kind) {
+				throw new Error(
+					block
+						? `{{/${kind}}} closes {{#${block.node.kind} ${block.node.source}}}`
+						: `{{/${kind}}} without an opening block`
+				);
+			}
+		} else if (tag === "else") {
+			const block = open[open.length - 1];
+			if (!block) {
+				literal();
+				continue;
+			}
+			if (block.inElse) {
+				throw new Error(
+					`Second {{else}} in {{#${block.node.kind} ${block.node.source}}}`
+				);
+			}
+			block.inElse = true;
+		} else {
+			const expression = parseExpression(tag);
+			if (expression) {
+				current().push({ type: "variable", expression });
+			} else {
+				literal();
+			}
+		}
+	}
+
+	if (lastIndex < source.length) {
+		current().push({ type: "text", value: source.slice(lastIndex) });
+	}
+
+	const unclosed = open.pop();
+	if (unclosed) {
+		throw new Error(
+			`Unclosed template block: {{#${unclosed.node.kind} ${unclosed.node.source}}}`
+		);
+	}
+
+	return root;
+}
+
+// Own properties only, so templates cannot reach __proto__ or constructor
+function ownValue(target: unknown, key: string): unknown {
+	if (target === null || target === undefined) return undefined;
+	if (typeof target !== "object" && typeof target !== "string") {
+		return undefined;
+	}
+	return Object.prototype.hasOwnProperty.call(target, key)
+		? (target as Record<string, unknown>)[key]
+		: undefined;
+}
+
+function lookup(
+	path: string,
+	data: Record<string, unknown>,
+	loops: LoopFrame[]
+): unknown {
+	const loop = loops[loops.length - 1];
+	if (path.startsWith("@")) {
+		if (!loop) return undefined;
+		switch (path) {
+			case "@index":
+				return loop.index;
+			case "@number":
+				return loop.index + 1;
+			case "@first":
+				return loop.index === 0;
+			case "@last":
+				return loop.index === loop.length - 1;
+			default:
+				return undefined;
+		}
+	}
+
+	const [head, ...rest] = path.split(".");
+	const resolve = (start: unknown) =>
+		rest.reduce((value, key) => ownValue(value, key), start);
+
+	if (head === "this") return resolve(loop ? loop.item : data);
+
+	// Fields of the current loop item first, then of the enclosing loops and the source
+	for (let i = loops.length - 1; i >= 0; i--) {
+		const item = loops[i].item;
+		if (
+			item &&
+			typeof item === "object" &&
+			ownValue(item, head) !== undefined
+		) {
+			return resolve(ownValue(item, head));
+		}
+	}
+	return resolve(ownValue(data, head));
+}
+
+/**
+ * Empty strings, empty lists, false, null and undefined count as missing
+ */
+function isPresent(value: unknown): boolean {
+	if (value === undefined || value === null || value === false) return false;
+	if (Array.isArray(value)) return value.length > 0;
+	return String(value).trim() !== "";
+}
+
+function evaluate(
+	expression: TemplateExpression,
+	data: Record<string, unknown>,
+	loops: LoopFrame[]
+): unknown {
+	return expression.filters.reduce(
+		(value, filter) => applyTemplateFilter(filter.name, value, filter.args),
+		lookup(expression.path, data, loops)
+	);
+}
+
+function renderNodes(
+	nodes: TemplateNode[],
+	data: Record<string, unknown>,
+	loops: LoopFrame[]
+): string {
+	return nodes
+		.map((node) => {
+			switch (node.type) {
+				case "text":
+					return node.value;
+				case "variable": {
+					const value = evaluate(node.expression, data, loops);
+					if (value === undefined || value === null) return "";
+					// Filtered lists read naturally; plain {{author}} renders as before
+					return Array.isArray(value) &&
+						node.expression.filters.length > 0
+						? value.join(", ")
+						: String(value);
+				}
+				case "block": {
+					const value = evaluate(node.expression, data, loops);
+					if (node.kind === "each") {
+						if (!isPresent(value)) {
+							return renderNodes(node.inverse, data, loops);
+						}
+						const items = Array.isArray(value) ? value : [value];
+						return items
+							.map((item, index) =>
+								renderNodes(node.body, data, [
+									...loops,
+									{ item, index, length: items.length },
+								])
+							)
+							.join("");
+					}
+					const show =
+						node.kind === "if"
+							? isPresent(value)
+							: !isPresent(value);
+					return renderNodes(
+						show ? node.body : node.inverse,
+						data,
+						loops
+					);
+				}
+			}
+		})
+		.join("");
+}
+
+/**
+ * Check a template for syntax errors without rendering it, e.g. when it is loaded
+ * @throws If blocks are unclosed or closed in the wrong order
+ */
+export function validateTemplate(template: string): void {
+	parseTemplate(template);
+}
+
+/**
+ * Render a source note template with the given variables
+ * Plain {{variable}} templates render as before; unknown variables become empty strings,
+ * tags with unknown blocks or filters are kept as written
+ * @throws If blocks are unclosed or closed in the wrong order
+ */
+export function renderTemplate(
+	template: string,
+	data: Record<string, unknown>
+): string {
+	return renderNodes(parseTemplate(template), data, []);
+}
+
+/**
+ * Built-in variables derived from a source, e.g. for "Deep Learning: A Survey" by three authors:
+ * firstAuthorLastName "LeCun", authorCount 3, etAl "LeCun et al.", shortTitle "Deep Learning",
+ * plus importDate and added as today's date
+ */
+export function computedTemplateVariables(
+	source: { author?: unknown; title?: unknown }
+): Record<string, unknown> {
+	const families = parseNameList(source.author)
+		.map(familyName)
+		.filter((name) => name);
+	const importDate = today();
+
+	return {
+		firstAuthorLastName: families[0] || "",
+		authorCount: families.length,
+		// "Smith", "Smith & Doe" or "Smith et al."
+		etAl:
+			families.length > 2
+				? `${families[0]} et al.`
+				: families.join(" & "),
+		// Main title without its subtitle; periods stay, since "U.S. Policy" has no subtitle
+		shortTitle: String(source.title || "")
+			.split(/\s*(?::|\s[-–—])\s/)[0]
+			.trim(),
+		importDate,
+		added: importDate,
+	};
+}
@@ -0,0 +1,132 @@
+// Filters for template values, e.g. {{title | lower}}, {{author | join:"; "}} or {{date:YYYY-MM-DD}}
+import { parseDate } from "./dates";
+import { normalizeArxivId, normalizeDoi } from "./identifiers";
+import { displayName, familyName } from "./names";
+
+type TemplateFilter = (value: unknown, args: string[]) => unknown;
+
+const ARXIV_ID = /^(?:\d{4}\.\d{4,5}|[a-z-]+(?:\.[A-Z]{2})?\/\d{7})(?:v\d+)?$/i;
+
+function isPresent(value: unknown): boolean {
+	if (value === undefined || value === null || value === false) return false;
+	if (Array.isArray(value)) return value.length > 0;
+	return String(value).trim() !== "";
+}
+
+/**
+ * Apply a text transformation to a value, or to every entry of a list
+ * Missing values stay missing, so `default` can still replace them
+ */
+function eachItem(
+	transform: (text: string, args: string[]) => string
+): TemplateFilter {
+	return (value, args) => {
+		if (value === undefined || value === null) return value;
+		return Array.isArray(value)
+			? value.map((item) => transform(String(item), args))
+			: transform(String(value), args);
+	};
+}
+
+function pad(value: number): string {
+	return value < 10 ? `0${value}` : String(value);
+}
+
+/**
+ * Format a date with YYYY, YY, MM, M, DD and D, e.g. "DD.MM.YYYY"
+ * Parts the date doesn't have are left out with their separator: "2023" as "YYYY-MM-DD" is "2023"
+ */
+export function formatDatePattern(value: unknown, pattern: string): string {
+	const parts = parseDate(value)?.["date-parts"]?.[0];
+	if (!parts || parts.length === 0) {
+		return value === undefined || value === null ? "" : String(value);
+	}
+
+	const [year, month, day] = parts;
+	const tokens: Record<string, string> = {
+		YYYY: String(year),
+		YY: String(year).slice(-2),
+		MM: month ? pad(month) : "",
+		M: month ? String(month) : "",
+		DD: day ? pad(day) : "",
+		D: day ? String(day) : "",
+	};
+	return pattern
+		.replace(/[-./ ]?(YYYY|YY|MM|M|DD|D)/g, (match, token) =>
+			tokens[token] ? match.replace(token, tokens[token]) : ""
+		)
+		.replace(/^[-./ ]+/, "");
+}
+
+/**
+ * Link for a DOI or arXiv ID; web links and other values are returned as they are
+ */
+function identifierUrl(text: string): string {
+	const value = text.trim();
+	if (/^https?:\/\//i.test(value)) return value;
+
+	const doi = normalizeDoi(value);
+	if (/^10\.\d{4,9}\/\S+$/.test(doi)) return `https://doi.org/${doi}`;
+
+	const arxiv = normalizeArxivId(value);
+	if (ARXIV_ID.test(arxiv)) return `https://arxiv.org/abs/${arxiv}`;
+
+	return value;
+}
+
+function toList(value: unknown): unknown[] {
+	if (Array.isArray(value)) return value;
+	return isPresent(value) ? [value] : [];
+}
+
+export const TEMPLATE_FILTERS: Record<string, TemplateFilter> = {
+	lower: eachItem((text) => text.toLowerCase()),
+	upper: eachItem((text) => text.toUpperCase()),
+	capitalize: eachItem(
+		(text) => text.charAt(0).toUpperCase() + text.slice(1)
+	),
+	trim: eachItem((text) => text.trim()),
+	truncate: eachItem((text, [length]) => {
+		const limit = parseInt(length);
+		if (isNaN(limit)) {
+			throw new Error("truncate needs a length, e.g. truncate:200");
+		}
+		return text.length > limit
+			? `${text.slice(0, limit).trimEnd()}…`
+			: text;
+	}),
+	date: eachItem((text, [pattern]) =>
+		formatDatePattern(text, pattern || "YYYY-MM-DD")
+	),
+	// "Smith, John" -> "John Smith"
+	names: eachItem((text) => displayName(text)),
+	// "van der Berg, Jan" -> "Berg"
+	family: eachItem((text) => familyName(text)),
+	wikilinks: eachItem((text) => `[[${text}]]`),
+	url: eachItem((text) => identifierUrl(text)),
+	join: (value, [separator]) =>
+		Array.isArray(value) ? value.join(separator ?? ", ") : value,
+	first: (value) => (Array.isArray(value) ? value[0] : value),
+	last: (value) => (Array.isArray(value) ? value[value.length - 1] : value),
+	count: (value) => toList(value).length,
+	default: (value, [fallback]) => (isPresent(value) ? value : fallback ?? ""),
+};
+
+export function isTemplateFilter(name: string): boolean {
+	return Object.prototype.hasOwnProperty.call(TEMPLATE_FILTERS, name);
+}
+
+/**
+ * Apply a filter by name
+ * @throws If there is no filter of that name
+ */
+export function applyTemplateFilter(
+	name: string,
+	value: unknown,
+	args: string[]
+): unknown {
+	if (!isTemplateFilter(name)) {
+		throw new Error(`Unknown template filter: ${name}`);
+	}
+	return TEMPLATE_FILTERS[name](value, args);
+}
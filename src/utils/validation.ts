@@ -0,0 +1,328 @@
+// Library lint: required fields per source type and identifier checks
+import { dateYear } from "./dates";
+import { isValidIsbn, normalizeDoi, normalizeIsbn } from "./identifiers";
+
+export type IssueSeverity = "error" | "warning";
+
+export interface QuickFix {
+	label: string;
+	// Updates the frontmatter in place, e.g. inside processFrontMatter
+	apply: (frontmatter: Record<string, unknown>) => void;
+}
+
+export interface ValidationIssue {
+	severity: IssueSeverity;
+	// Frontmatter field the issue is about, if any
+	field?: string;
+	message: string;
+	fix?: QuickFix;
+}
+
+export interface ValidationCandidate {
+	path: string;
+	frontmatter: Record<string, unknown>;
+}
+
+export interface ValidationResult<T extends ValidationCandidate> {
+	source: T;
+	issues: ValidationIssue[];
+}
+
+const ARTICLE_FIELDS = ["title", "author", "journal", "volume", "year"];
+const PERIODICAL_FIELDS = ["title", "author", "journal", "year"];
+const PUBLISHED_FIELDS = ["title", "author", "publisher", "year"];
+const WEB_FIELDS = ["title", "url"];
+
+/**
+ * Fields every source of a bibtype needs, following biblatex's required fields
+ * "a|b" is satisfied by either field; `journal` also holds book and proceedings titles
+ */
+export const REQUIRED_FIELDS: Record<string, string[]> = {
+	article: ARTICLE_FIELDS,
+	"article-journal": ARTICLE_FIELDS,
+	paper: ARTICLE_FIELDS,
+	"article-magazine": PERIODICAL_FIELDS,
+	"article-newspaper": PERIODICAL_FIELDS,
+	"paper-conference": PERIODICAL_FIELDS,
+	inproceedings: PERIODICAL_FIELDS,
+	book: ["title", "author|editor", "publisher", "year"],
+	chapter: ["title", "author", "journal", "publisher", "year"],
+	thesis: PUBLISHED_FIELDS,
+	report: PUBLISHED_FIELDS,
+	webpage: WEB_FIELDS,
+	website: WEB_FIELDS,
+};
+
+// Fields needed whatever the type
+const DEFAULT_REQUIRED_FIELDS = ["title"];
+
+// Older years are usually typos; reprints keep the original year in `date` or `origdate`
+const EARLIEST_YEAR = 1000;
+
+const DOI_PATTERN = /^10\.\d{4,9}\/\S+$/;
+
+function isEmptyValue(value: unknown): boolean {
+	return (
+		value === undefined ||
+		value === null ||
+		String(value).trim() === "" ||
+		(Array.isArray(value) && value.length === 0)
+	);
+}
+
+function toList(value: unknown): string[] {
+	if (isEmptyValue(value)) return [];
+	return (Array.isArray(value) ? value : [value]).map((item) => String(item));
+}
+
+function checkRequiredFields(
+	frontmatter: Record<string, unknown>,
+	issues: ValidationIssue[]
+) {
+	const bibtype = String(frontmatter.bibtype || "").trim();
+	if (!bibtype) {
+		issues.push({
+			severity: "warning",
+			field: "bibtype",
+			message: "No bibtype, the source is exported as misc",
+		});
+	}
+
+	const required =
+		REQUIRED_FIELDS[bibtype.toLowerCase()] || DEFAULT_REQUIRED_FIELDS;
+	required.forEach((requirement) => {
+		const alternatives = requirement.split("|");
+		if (alternatives.some((field) => !isEmptyValue(frontmatter[field]))) {
+			return;
+		}
+
+		const field = alternatives[0];
+		const issue: ValidationIssue = {
+			severity: field === "title" ? "error" : "warning",
+			field,
+			message: `Missing ${alternatives.join(" or ")}${
+				bibtype ? ` (required for ${bibtype})` : ""
+			}`,
+		};
+
+		const year = dateYear(frontmatter.date);
+		if (field === "year" && year) {
+			issue.fix = {
+				label: `Set year to ${year}`,
+				apply: (fm) => {
+					fm.year = parseInt(year);
+				},
+			};
+		}
+		issues.push(issue);
+	});
+}
+
+function checkYear(
+	frontmatter: Record<string, unknown>,
+	currentYear: number,
+	issues: ValidationIssue[]
+) {
+	if (isEmptyValue(frontmatter.year)) return;
+
+	const text = String(frontmatter.year).trim();
+	const year = parseInt(text);
+	if (
+		!/^\d{4}$/.test(text) ||
+		year < EARLIEST_YEAR ||
+		year > currentYear + 1
+	) {
+		issues.push({
+			severity: "error",
+			field: "year",
+			message: `Implausible year: ${text}`,
+		});
+		return;
+	}
+
+	const dateYearText = dateYear(frontmatter.date);
+	if (dateYearText && dateYearText !== text) {
+		issues.push({
+			severity: "warning",
+			field: "year",
+			message: `Year ${text} does not match date ${frontmatter.date}`,
+			fix: {
+				label: `Set year to ${dateYearText}`,
+				apply: (fm) => {
+					fm.year = parseInt(dateYearText);
+				},
+			},
+		});
+	}
+}
+
+function checkIdentifiers(
+	frontmatter: Record<string, unknown>,
+	issues: ValidationIssue[]
+) {
+	if (!isEmptyValue(frontmatter.doi)) {
+		const raw = String(frontmatter.doi).trim();
+		const doi = normalizeDoi(raw);
+		if (!DOI_PATTERN.test(doi)) {
+			issues.push({
+				severity: "error",
+				field: "doi",
+				message: `Not a valid DOI: ${raw}`,
+			});
+		} else if (doi !== raw) {
+			issues.push({
+				severity: "warning",
+				field: "doi",
+				message: `DOI should be stored without resolver or prefix: ${raw}`,
+				fix: {
+					label: "Strip prefix",
+					apply: (fm) => {
+						fm.doi = doi;
+					},
+				},
+			});
+		}
+	}
+
+	if (!isEmptyValue(frontmatter.isbn)) {
+		const raw = String(frontmatter.isbn).trim();
+		const digits = normalizeIsbn(raw);
+		if (!isValidIsbn(raw)) {
+			issues.push({
+				severity: "error",
+				field: "isbn",
+				message:
+					digits.length === 10 || digits.length === 13
+						? `Wrong ISBN check digit: ${raw}`
+						: `Not an ISBN-10 or ISBN-13: ${raw}`,
+			});
+		}
+	}
+
+	if (!isEmptyValue(frontmatter.url)) {
+		const raw = String(frontmatter.url).trim();
+		let valid = false;
+		try {
+			valid = /^https?:$/.test(new URL(raw).protocol);
+		} catch {
+			valid = false;
+		}
+
+		if (!valid) {
+			const looksLikeDomain =
+				/^(?:www\.)?[\w-]+(?:\.[\w-]+)+(?:[/?#]|$)/i.test(raw);
+			const issue: ValidationIssue = {
+				severity: "error",
+				field: "url",
+				message: `Not a web URL: ${raw}`,
+			};
+			if (looksLikeDomain) {
+				issue.fix = {
+					label: "Add https://",
+					apply: (fm) => {
+						fm.url = `https://${raw}`;
+					},
+				};
+			}
+			issues.push(issue);
+		}
+	}
+}
+
+function checkOwnAliases(
+	frontmatter: Record<string, unknown>,
+	issues: ValidationIssue[]
+) {
+	const aliases = toList(frontmatter.aliases);
+	const unique = Array.from(new Set(aliases));
+	if (unique.length < aliases.length) {
+		issues.push({
+			severity: "warning",
+			field: "aliases",
+			message: "Aliases contain duplicates",
+			fix: {
+				label: "Remove duplicates",
+				apply: (fm) => {
+					fm.aliases = unique;
+				},
+			},
+		});
+	}
+}
+
+/**
+ * Check one source note's frontmatter on its own
+ * @param currentYear - Latest plausible year is the next one, for announced publications
+ */
+export function validateSource(
+	frontmatter: Record<string, unknown>,
+	currentYear = new Date().getFullYear()
+): ValidationIssue[] {
+	const issues: ValidationIssue[] = [];
+
+	if (isEmptyValue(frontmatter.citekey)) {
+		issues.push({
+			severity: "error",
+			field: "citekey",
+			message: "No citekey, the source cannot be cited",
+		});
+	}
+
+	checkRequiredFields(frontmatter, issues);
+	checkYear(frontmatter, currentYear, issues);
+	checkIdentifiers(frontmatter, issues);
+	checkOwnAliases(frontmatter, issues);
+
+	return issues;
+}
+
+/**
+ * Check all source notes, including citekeys and aliases that more than one note uses
+ * @returns Sources with at least one issue, sorted by path
+ */
+export function validateLibrary<T extends ValidationCandidate>(
+	sources: T[],
+	currentYear = new Date().getFullYear()
+): ValidationResult<T>[] {
+	// Citekeys and aliases resolve to notes, so each may belong to one note only
+	const owners = new Map<string, Set<string>>();
+	sources.forEach(({ path, frontmatter }) => {
+		const names = [
+			...toList(frontmatter.citekey).map((key) => `@${key}`),
+			...toList(frontmatter.aliases),
+		];
+		new Set(names).forEach((name) => {
+			if (!owners.has(name)) owners.set(name, new Set());
+			owners.get(name)?.add(path);
+		});
+	});
+
+	return sources
+		.map((source) => {
+			const issues = validateSource(source.frontmatter, currentYear);
+
+			const citekey = toList(source.frontmatter.citekey)[0];
+			const names = new Set([
+				...(citekey ? [`@${citekey}`] : []),
+				...toList(source.frontmatter.aliases),
+			]);
+			names.forEach((name) => {
+				const others = Array.from(owners.get(name) || []).filter(
+					(path) => path !== source.path
+				);
+				if (others.length === 0) return;
+				const isCitekey = name === `@${citekey}`;
+				issues.push({
+					severity: "error",
+					field: isCitekey ? "citekey" : "aliases",
+					message: `${
+						isCitekey ? "Citekey" : "Alias"
+					} ${name} is also used by ${others.join(", ")}`,
+				});
+			});
+
+			return { source, issues };
+		})
+		.filter(({ issues }) => issues.length > 0)
+		.sort((a, b) => a.source.path.localeCompare(b.source.path));
+}
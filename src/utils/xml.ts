@@ -0,0 +1,72 @@
+// Minimal XML reading for the small, well-formed responses of metadata APIs (arXiv Atom, PubMed)
+
+const XML_ENTITIES: Record<string, string> = {
+	amp: "&",
+	lt: "<",
+	gt: ">",
+	quot: '"',
+	apos: "'",
+};
+
+/**
+ * Decode the predefined entities and numeric character references
+ */
+export function decodeXmlEntities(text: string): string {
+	return text.replace(
+		/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+		(entity, name: string) => {
+			if (name[0] === "#") {
+				const code =
+					name[1].toLowerCase() === "x"
+						? parseInt(name.slice(2), 16)
+						: parseInt(name.slice(1), 10);
+				return String.fromCharCode(code);
+			}
+			return XML_ENTITIES[name.toLowerCase()] ?? entity;
+		}
+	);
+}
+
+function escapeTag(tag: string): string {
+	return tag.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * All elements with the given (possibly prefixed) tag name, as their outer XML
+ * Elements of the same name must not be nested
+ */
+export function xmlElements(xml: string, tag: string): string[] {
+	const name = escapeTag(tag);
+	const pattern = new RegExp(
+		`<${name}(?:\\s[^>]*)?(?:/>|>[\\s\\S]*?</${name}>)`,
+		"g"
+	);
+	return xml.match(pattern) || [];
+}
+
+/**
+ * Text content of the first element with the given tag name, with markup removed
+ * and whitespace collapsed, or "" if there is none
+ */
+export function xmlText(xml: string, tag: string): string {
+	const element = xmlElements(xml, tag)[0];
+	if (!element) return "";
+
+	const inner = element
+		.replace(/^<[^>]*>/, "")
+		.replace(/<\/[^>]*>$/, "")
+		.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+		.replace(/<[^>]+>/g, "");
+	return decodeXmlEntities(inner).replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Value of an attribute on the opening tag of an element
+ */
+export function xmlAttribute(element: string, attribute: string): string {
+	const openingTag = element.match(/^<[^>]*>/)?.[0] || "";
+	const match = openingTag.match(
+		new RegExp(`\\s${escapeTag(attribute)}\\s*=\\s*("([^"]*)"|'([^']*)')`)
+	);
+	return match ? decodeXmlEntities(match[2] ?? match[3]) : "";
+}
@@ -0,0 +1,115 @@
+// Minimal ZIP reading for EPUB files (stored and deflated entries, no ZIP64)
+
+export interface ZipEntry {
+	name: string;
+	// 0 = stored, 8 = deflate
+	method: number;
+	compressedSize: number;
+	localHeaderOffset: number;
+}
+
+/**
+ * Decompress raw deflate data, injectable for environments without DecompressionStream
+ */
+export type RawInflater = (data: Uint8Array) => Promise<Uint8Array>;
+
+// Available in Obsidian's Electron and Node 18+, but not yet in TypeScript's DOM types
+declare const DecompressionStream: {
+	new (format: "deflate-raw"): ReadableWritablePair<Uint8Array, Uint8Array>;
+};
+
+export const inflateRaw: RawInflater = async (data) => {
+	const stream = new Blob([data])
+		.stream()
+		.pipeThrough(new DecompressionStream("deflate-raw"));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/**
+ * List the entries of a ZIP archive from its central directory
+ */
+export function listZipEntries(data: Uint8Array): ZipEntry[] {
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+	// The end record is followed by a comment of at most 65535 bytes
+	let end = -1;
+	for (
+		let i = data.length - 22;
+		i >= Math.max(0, data.length - 22 - 0xffff);
+		i--
+	) {
+		if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+			end = i;
+			break;
+		}
+	}
+	if (end === -1) {
+		throw new Error("Not a ZIP archive");
+	}
+
+	const count = view.getUint16(end + 10, true);
+	let offset = view.getUint32(end + 16, true);
+	const decoder = new TextDecoder();
+	const entries: ZipEntry[] = [];
+
+	for (let i = 0; i < count; i++) {
+		if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+			throw new Error("Corrupt ZIP central directory");
+		}
+		const nameLength = view.getUint16(offset + 28, true);
+		const extraLength = view.getUint16(offset + 30, true);
+		const commentLength = view.getUint16(offset + 32, true);
+
+		entries.push({
+			name: decoder.decode(
+				data.subarray(offset + 46, offset + 46 + nameLength)
+			),
+			method: view.getUint16(offset + 10, true),
+			compressedSize: view.getUint32(offset + 20, true),
+			localHeaderOffset: view.getUint32(offset + 42, true),
+		});
+		offset += 46 + nameLength + extraLength + commentLength;
+	}
+
+	return entries;
+}
+
+/**
+ * Read one entry of a ZIP archive as UTF-8 text
+ * @returns The text, or null if the archive has no such entry
+ */
+export async function readZipText(
+	data: Uint8Array,
+	name: string,
+	inflater: RawInflater = inflateRaw
+): Promise<string | null> {
+	const entry = listZipEntries(data).find((e) => e.name === name);
+	if (!entry) return null;
+
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+	const header = entry.localHeaderOffset;
+	if (view.getUint32(header, true) !== LOCAL_FILE_HEADER) {
+		throw new Error(`Corrupt ZIP entry: ${name}`);
+	}
+
+	const start =
+		header +
+		30 +
+		view.getUint16(header + 26, true) +
+		view.getUint16(header + 28, true);
+	const compressed = data.subarray(start, start + entry.compressedSize);
+
+	let content: Uint8Array;
+	if (entry.method === 0) {
+		content = compressed;
+	} else if (entry.method === 8) {
+		content = await inflater(compressed);
+	} else {
+		throw new Error(`Unsupported ZIP compression method ${entry.method}`);
+	}
+	return new TextDecoder().decode(content);
+}
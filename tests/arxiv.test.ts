@@ -0,0 +1,113 @@
+// Test arXiv ID parsing and Atom metadata mapping against recorded API responses
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { arxivApiUrl, fetchArxivSource, parseArxivAtom, parseArxivId } from '../src/utils/arxiv';
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', 'arxiv', name), 'utf8');
+
+// Serves recorded responses by arXiv ID and remembers the requested URLs
+const recordedFetcher = (responses: Record<string, string>) => {
+  const requested: string[] = [];
+  const fetcher = async (url: string) => {
+    requested.push(url);
+    const id = decodeURIComponent(url.split('id_list=')[1]);
+    if (!responses[id]) throw new Error(`No fixture for ${id}`);
+    return responses[id];
+  };
+  return { fetcher, requested };
+};
+
+describe('arXiv IDs', () => {
+  it('should accept new-style IDs, old-style IDs and links', () => {
+    expect(parseArxivId('arXiv:2301.12345')).toBe('2301.12345');
+    expect(parseArxivId('2301.12345v2')).toBe('2301.12345v2');
+    expect(parseArxivId('hep-th/9901001')).toBe('hep-th/9901001');
+    expect(parseArxivId('math.GT/0309136')).toBe('math.GT/0309136');
+    expect(parseArxivId('https://arxiv.org/abs/1706.03762v7')).toBe('1706.03762v7');
+    expect(parseArxivId('https://arxiv.org/pdf/1706.03762.pdf')).toBe('1706.03762');
+  });
+
+  it('should reject other input', () => {
+    expect(parseArxivId('10.1000/xyz')).toBeNull();
+    expect(parseArxivId('Attention is all you need')).toBeNull();
+    expect(parseArxivId('')).toBeNull();
+  });
+
+  it('should build the API query URL', () => {
+    expect(arxivApiUrl('hep-th/9711200')).toBe('https://export.arxiv.org/api/query?id_list=hep-th%2F9711200');
+  });
+});
+
+describe('arXiv Atom Parsing', () => {
+  it('should read the entry metadata', () => {
+    const entry = parseArxivAtom(fixture('1706.03762.xml'));
+
+    expect(entry.id).toBe('1706.03762');
+    expect(entry.version).toBe('v7');
+    expect(entry.title).toBe('Attention Is All You Need');
+    expect(entry.authors).toHaveLength(8);
+    expect(entry.authors[0]).toBe('Ashish Vaswani');
+    expect(entry.abstract).toMatch(/^The dominant sequence transduction models/);
+    expect(entry.abstract).not.toContain('\n');
+    expect(entry.primaryCategory).toBe('cs.CL');
+    expect(entry.categories).toEqual(['cs.CL', 'cs.LG']);
+    expect(entry.pdfUrl).toBe('http://arxiv.org/pdf/1706.03762v7');
+    expect(entry.doi).toBe('');
+  });
+
+  it('should read the published DOI and journal reference', () => {
+    const entry = parseArxivAtom(fixture('hep-th-9711200.xml'));
+
+    expect(entry.id).toBe('hep-th/9711200');
+    expect(entry.version).toBe('v3');
+    expect(entry.authors).toEqual(['Juan M. Maldacena']);
+    expect(entry.doi).toBe('10.1023/A:1026654312961');
+    expect(entry.journalRef).toMatch(/^Adv\.Theor\.Math\.Phys/);
+  });
+
+  it('should report API errors', () => {
+    expect(() => parseArxivAtom(fixture('error.xml'))).toThrow('incorrect id format for 1234.5678');
+  });
+});
+
+describe('arXiv Import', () => {
+  it('should map an entry to source data', async () => {
+    const { fetcher, requested } = recordedFetcher({ '1706.03762': fixture('1706.03762.xml') });
+    const sourceData = await fetchArxivSource('arXiv:1706.03762', 'default', '', fetcher);
+
+    expect(requested).toEqual(['https://export.arxiv.org/api/query?id_list=1706.03762']);
+    expect(sourceData.title).toBe('Attention Is All You Need');
+    const author = sourceData.author as string[];
+    expect(author[0]).toBe('Vaswani, Ashish');
+    expect(author[5]).toBe('Gomez, Aidan N.');
+    expect(sourceData.year).toBe('2017');
+    expect(sourceData.date).toBe('2017-06-12');
+    expect(sourceData.keywords).toEqual(['cs.CL']);
+    expect(sourceData.arxiv).toBe('1706.03762');
+    expect(sourceData.version).toBe('v7');
+    expect(sourceData.downloadurl).toBe('http://arxiv.org/pdf/1706.03762v7');
+    expect(sourceData.url).toBe('http://arxiv.org/abs/1706.03762v7');
+    expect(sourceData.bibtype).toBe('article');
+    expect(sourceData.citekey).toBeTruthy();
+  });
+
+  it('should fall back to the arXiv DOI without a published DOI', async () => {
+    const { fetcher } = recordedFetcher({ '1706.03762': fixture('1706.03762.xml') });
+    const sourceData = await fetchArxivSource('1706.03762', 'default', '', fetcher);
+    expect(sourceData.doi).toBe('10.48550/arXiv.1706.03762');
+  });
+
+  it('should link to the published DOI', async () => {
+    const { fetcher } = recordedFetcher({ 'hep-th/9711200': fixture('hep-th-9711200.xml') });
+    const sourceData = await fetchArxivSource('https://arxiv.org/abs/hep-th/9711200', 'default', '', fetcher);
+    expect(sourceData.doi).toBe('10.1023/A:1026654312961');
+    expect(sourceData.arxiv).toBe('hep-th/9711200');
+    expect(sourceData.keywords).toEqual(['hep-th']);
+  });
+
+  it('should not query the API for invalid input', async () => {
+    const { fetcher, requested } = recordedFetcher({});
+    await expect(fetchArxivSource('not an id', 'default', '', fetcher)).rejects.toThrow('Not an arXiv ID');
+    expect(requested).toHaveLength(0);
+  });
+});
@@ -0,0 +1,82 @@
+// Test naming, placing and linking attachment files of source notes
+import {
+  attachmentExtension,
+  attachmentLink,
+  formatAttachmentFilename,
+  parseFileLink,
+  resolveAttachmentFolder,
+} from '../src/utils/attachmentFiles';
+
+describe('Attachment Filenames', () => {
+  const source = {
+    citekey: 'vaswani2017attention',
+    title: 'Attention Is All You Need: A <i>Transformer</i> Study',
+    year: '2017',
+    author: ['Vaswani, Ashish', 'Shazeer, Noam'],
+  };
+
+  it('should fill the pattern variables', () => {
+    expect(formatAttachmentFilename('{{citekey}}', source)).toBe('vaswani2017attention');
+    expect(formatAttachmentFilename('{{author}} {{year}} - {{title}}', source)).toBe(
+      'Vaswani 2017 - Attention Is All You Need A Transformer Study'
+    );
+  });
+
+  it('should drop characters that break links', () => {
+    expect(formatAttachmentFilename('{{citekey}} #1 [draft]', source)).toBe('vaswani2017attention 1 draft');
+  });
+
+  it('should fall back to the citekey', () => {
+    expect(formatAttachmentFilename('', source)).toBe('vaswani2017attention');
+    expect(formatAttachmentFilename('{{unknown}}', source)).toBe('vaswani2017attention');
+    expect(formatAttachmentFilename('{{author}}', { citekey: 'Anon23' })).toBe('Anon23');
+  });
+});
+
+describe('Attachment Folders', () => {
+  it('should use vault folders as they are', () => {
+    expect(resolveAttachmentFolder('attachments', 'sources/Paper/Note.md')).toBe('attachments');
+    expect(resolveAttachmentFolder('/files/pdf/', 'sources/Paper/Note.md')).toBe('files/pdf');
+    expect(resolveAttachmentFolder('', 'sources/Paper/Note.md')).toBe('');
+  });
+
+  it('should resolve folders relative to the source note', () => {
+    expect(resolveAttachmentFolder('./', 'sources/Paper/Note.md')).toBe('sources/Paper');
+    expect(resolveAttachmentFolder('./attachments', 'sources/Paper/Note.md')).toBe('sources/Paper/attachments');
+    expect(resolveAttachmentFolder('../files', 'sources/Paper/Note.md')).toBe('sources/files');
+    expect(resolveAttachmentFolder('./attachments', 'Note.md')).toBe('attachments');
+  });
+});
+
+describe('Attachment Downloads', () => {
+  it('should prefer the content type for the extension', () => {
+    expect(attachmentExtension('https://arxiv.org/pdf/1706.03762v7', 'application/pdf')).toBe('pdf');
+    expect(attachmentExtension('https://example.org/book', 'application/epub+zip; charset=binary')).toBe('epub');
+  });
+
+  it('should fall back to the URL and then to PDF', () => {
+    expect(attachmentExtension('https://example.org/files/report.EPUB?download=1')).toBe('epub');
+    expect(attachmentExtension('https://example.org/download', 'application/octet-stream')).toBe('pdf');
+  });
+});
+
+describe('File Links', () => {
+  it('should read the path from wiki links and markdown links', () => {
+    expect(parseFileLink('[[attachments/vaswani2017.pdf]]')).toBe('attachments/vaswani2017.pdf');
+    expect(parseFileLink('[[attachments/vaswani2017.pdf|PDF]]')).toBe('attachments/vaswani2017.pdf');
+    expect(parseFileLink('![[attachments/vaswani2017.pdf#page=3]]')).toBe('attachments/vaswani2017.pdf');
+    expect(parseFileLink('[PDF](attachments/Attention%20Paper.pdf)')).toBe('attachments/Attention Paper.pdf');
+    expect(parseFileLink('attachments/vaswani2017.pdf')).toBe('attachments/vaswani2017.pdf');
+  });
+
+  it('should ignore empty values and web links', () => {
+    expect(parseFileLink('')).toBeNull();
+    expect(parseFileLink(undefined)).toBeNull();
+    expect(parseFileLink('https://arxiv.org/pdf/1706.03762')).toBeNull();
+  });
+
+  it('should link attachments by full path', () => {
+    expect(attachmentLink({ path: 'attachments/vaswani2017.pdf' })).toBe('[[attachments/vaswani2017.pdf]]');
+    expect(parseFileLink(attachmentLink({ path: 'a b/c.pdf' }))).toBe('a b/c.pdf');
+  });
+});
@@ -0,0 +1,142 @@
+// Test reading embedded PDF and EPUB metadata for attachment import
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  attachmentToSourceData,
+  completeIdentifiers,
+  parseOpf,
+  parsePdfInfo,
+  parseXmp,
+  readEpub,
+  splitNames,
+} from '../src/utils/attachments';
+import { listZipEntries, readZipText } from '../src/utils/zip';
+
+const epub = () => new Uint8Array(readFileSync(join(__dirname, 'fixtures', 'attachments', 'sample.epub')));
+
+const XMP = `<?xpacket begin="" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about="" xmlns:prism="http://prismstandard.org/namespaces/basic/2.0/"
+        prism:doi="10.1016/j.cell.2020.01.001" prism:coverDate="2020-02-06">
+      <dc:title><rdf:Alt><rdf:li xml:lang="x-default">A Study of Cells &amp; Tissues</rdf:li></rdf:Alt></dc:title>
+      <dc:creator><rdf:Seq><rdf:li>Jane Doe</rdf:li><rdf:li>John Smith</rdf:li></rdf:Seq></dc:creator>
+      <dc:subject><rdf:Bag><rdf:li>cells</rdf:li><rdf:li>tissues</rdf:li></rdf:Bag></dc:subject>
+      <dc:publisher><rdf:Bag><rdf:li>Elsevier</rdf:li></rdf:Bag></dc:publisher>
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+
+describe('Attachment Metadata Parsing', () => {
+  it('should split author fields without breaking up sortable names', () => {
+    expect(splitNames('Jane Doe; John Smith')).toEqual(['Jane Doe', 'John Smith']);
+    expect(splitNames('Jane Doe and John Smith')).toEqual(['Jane Doe', 'John Smith']);
+    expect(splitNames('Jane Doe, John Smith')).toEqual(['Jane Doe', 'John Smith']);
+    expect(splitNames('Doe, Jane')).toEqual(['Doe, Jane']);
+    expect(splitNames('')).toEqual([]);
+  });
+
+  it('should ignore placeholder titles in the PDF Info dictionary', () => {
+    const placeholder = parsePdfInfo({ Title: 'Microsoft Word - draft3.docx', Author: 'Jane Doe' });
+    expect(placeholder.title).toBeUndefined();
+    expect(placeholder.author).toEqual(['Jane Doe']);
+    expect(parsePdfInfo({ Title: 'Deep Learning', Keywords: 'neural networks; learning' })).toEqual(
+      expect.objectContaining({ title: 'Deep Learning', keywords: ['neural networks', 'learning'] })
+    );
+  });
+
+  it('should read Dublin Core and PRISM properties from XMP', () => {
+    const metadata = parseXmp(XMP);
+
+    expect(metadata.title).toBe('A Study of Cells & Tissues');
+    expect(metadata.author).toEqual(['Jane Doe', 'John Smith']);
+    expect(metadata.keywords).toEqual(['cells', 'tissues']);
+    expect(metadata.publisher).toBe('Elsevier');
+    expect(metadata.date).toBe('2020-02-06');
+    expect(metadata.doi).toBe('10.1016/j.cell.2020.01.001');
+  });
+
+  it('should read EPUB 2 creator roles and identifiers', () => {
+    const metadata = parseOpf(`<package><metadata>
+      <dc:title>Der Process</dc:title>
+      <dc:creator opf:role="aut" opf:file-as="Kafka, Franz">Franz Kafka</dc:creator>
+      <dc:creator opf:role="trl">Willa Muir</dc:creator>
+      <dc:identifier opf:scheme="ISBN">urn:isbn:9780805209990</dc:identifier>
+      <dc:date>1925</dc:date>
+    </metadata></package>`);
+
+    expect(metadata.author).toEqual(['Kafka, Franz']);
+    expect(metadata.translator).toEqual(['Willa Muir']);
+    expect(metadata.isbn).toBe('9780805209990');
+    expect(metadata.date).toBe('1925');
+  });
+});
+
+describe('EPUB Reading', () => {
+  it('should list the archive entries', () => {
+    const names = listZipEntries(epub()).map((entry) => entry.name);
+    expect(names).toContain('META-INF/container.xml');
+    expect(names).toContain('OEBPS/content.opf');
+  });
+
+  it('should read stored and deflated entries', async () => {
+    expect(await readZipText(epub(), 'mimetype')).toBe('application/epub+zip');
+    expect(await readZipText(epub(), 'OEBPS/content.opf')).toContain('<dc:title>Introduction to Algorithms</dc:title>');
+    expect(await readZipText(epub(), 'missing.xhtml')).toBeNull();
+  });
+
+  it('should read EPUB 3 package metadata and the first pages', async () => {
+    const content = await readEpub(epub());
+
+    expect(content.metadata.title).toBe('Introduction to Algorithms');
+    expect(content.metadata.author).toEqual(['Thomas H. Cormen', 'Charles E. Leiserson']);
+    expect(content.metadata.editor).toEqual(['Jane Editor']);
+    expect(content.metadata.publisher).toBe('MIT Press');
+    expect(content.metadata.date).toBe('2009-07-31');
+    expect(content.text).toContain('ISBN 978-0-262-03384-8');
+  });
+
+  it('should reject other archives', async () => {
+    await expect(readEpub(new Uint8Array([1, 2, 3]))).rejects.toThrow('Not a ZIP archive');
+  });
+});
+
+describe('Attachment Import', () => {
+  it('should prefer embedded identifiers over those found in the text', () => {
+    const metadata = completeIdentifiers({
+      metadata: { ...parseXmp(XMP) },
+      text: 'References: doi:10.1000/other.cited.work ISBN 978-0-262-03384-8',
+    });
+
+    expect(metadata.doi).toBe('10.1016/j.cell.2020.01.001');
+    expect(metadata.isbn).toBe('9780262033848');
+  });
+
+  it('should create book source data linking to the EPUB', async () => {
+    const metadata = completeIdentifiers(await readEpub(epub()));
+    const sourceData = attachmentToSourceData(
+      metadata,
+      { path: 'Attachments/clrs.epub', basename: 'clrs', extension: 'epub' },
+      'default'
+    );
+
+    expect(sourceData.bibtype).toBe('book');
+    expect(sourceData.title).toBe('Introduction to Algorithms');
+    expect(sourceData.author).toEqual(['Cormen, Thomas H.', 'Leiserson, Charles E.']);
+    expect(sourceData.isbn).toBe('9780262033848');
+    expect(sourceData.filelink).toBe('[[Attachments/clrs.epub]]');
+  });
+
+  it('should fall back to the file name for untitled PDFs', () => {
+    const sourceData = attachmentToSourceData(
+      parsePdfInfo({ Title: 'untitled' }),
+      { path: 'scan-0042.pdf', basename: 'scan-0042', extension: 'pdf' },
+      'default'
+    );
+
+    expect(sourceData.title).toBe('scan-0042');
+    expect(sourceData.bibtype).toBe('document');
+    expect(sourceData.filelink).toBe('[[scan-0042.pdf]]');
+  });
+});
@@ -0,0 +1,115 @@
+// Test identifier extraction and the concurrency/retry helpers used by batch import
+import { arxivDoi, extractIdentifiers, identifierKey, isValidIsbn, normalizeArxivId } from '../src/utils/identifiers';
+import { isTransientError, runWithConcurrency, withRetry } from '../src/utils/batch';
+
+describe('Identifier Extraction', () => {
+  it('should validate ISBN check digits', () => {
+    expect(isValidIsbn('978-0-262-03384-8')).toBe(true);
+    expect(isValidIsbn('0-262-03384-4')).toBe(true);
+    expect(isValidIsbn('0-8044-2957-X')).toBe(true);
+    expect(isValidIsbn('978-0-262-03384-9')).toBe(false);
+    expect(isValidIsbn('12345')).toBe(false);
+  });
+
+  it('should split newline- and comma-separated lists', () => {
+    const identifiers = extractIdentifiers('10.1000/abc\n10.1000/def,10.1000/ghi, 978-0-262-03384-8');
+    expect(identifiers).toEqual([
+      { type: 'doi', value: '10.1000/abc' },
+      { type: 'doi', value: '10.1000/def' },
+      { type: 'doi', value: '10.1000/ghi' },
+      { type: 'isbn', value: '9780262033848' },
+    ]);
+  });
+
+  it('should find identifiers in prose and links', () => {
+    const text =
+      'See https://doi.org/10.1038/nature14539. The book (ISBN 0-262-03384-4) and ' +
+      '(doi:10.1016/S0140-6736(20)30183-5) are cited too.';
+    expect(extractIdentifiers(text)).toEqual([
+      { type: 'doi', value: '10.1038/nature14539' },
+      { type: 'isbn', value: '0262033844' },
+      { type: 'doi', value: '10.1016/S0140-6736(20)30183-5' },
+    ]);
+  });
+
+  it('should drop duplicates and invalid ISBNs', () => {
+    const identifiers = extractIdentifiers('10.1000/ABC 10.1000/abc 978-0-262-03384-9');
+    expect(identifiers).toEqual([{ type: 'doi', value: '10.1000/ABC' }]);
+  });
+
+  it('should build lookup keys that ignore case and formatting', () => {
+    expect(identifierKey({ type: 'doi', value: 'https://doi.org/10.1000/ABC' })).toBe('doi:10.1000/abc');
+    expect(identifierKey({ type: 'isbn', value: '978-0-262-03384-8' })).toBe('isbn:9780262033848');
+  });
+
+  it('should find arXiv IDs and links', () => {
+    const text =
+      'Preprint arXiv:2301.12345v2, see https://arxiv.org/pdf/1706.03762.pdf and arXiv: hep-th/9901001. ' +
+      'Also https://doi.org/10.48550/arXiv.2301.12345 and 2301.99999 without prefix.';
+    expect(extractIdentifiers(text)).toEqual([
+      { type: 'arxiv', value: '2301.12345v2' },
+      { type: 'arxiv', value: '1706.03762' },
+      { type: 'arxiv', value: 'hep-th/9901001' },
+    ]);
+  });
+
+  it('should map arXiv IDs to their arXiv DOI', () => {
+    expect(normalizeArxivId('https://arxiv.org/abs/2301.12345v2')).toBe('2301.12345v2');
+    expect(arxivDoi('arXiv:2301.12345v2')).toBe('10.48550/arXiv.2301.12345');
+    expect(identifierKey({ type: 'arxiv', value: '2301.12345' })).toBe(
+      identifierKey({ type: 'doi', value: 'https://doi.org/10.48550/arXiv.2301.12345' })
+    );
+  });
+});
+
+describe('Batch Helpers', () => {
+  it('should keep result order and respect the concurrency limit', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const results = await runWithConcurrency([30, 10, 20, 0, 5], 2, async (delay) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      inFlight--;
+      if (delay === 0) throw new Error('not found');
+      return delay * 2;
+    });
+
+    expect(maxInFlight).toBe(2);
+    expect(results.map((result) => (result.ok ? result.value : 'error'))).toEqual([60, 20, 40, 'error', 10]);
+  });
+
+  it('should retry transient errors only', async () => {
+    let calls = 0;
+    const value = await withRetry(
+      async () => {
+        calls++;
+        if (calls < 3) throw Object.assign(new Error('Server responded with status code 503'), { status: 503 });
+        return 'ok';
+      },
+      { retries: 2, baseDelayMs: 0 }
+    );
+    expect(value).toBe('ok');
+    expect(calls).toBe(3);
+
+    calls = 0;
+    await expect(
+      withRetry(
+        async () => {
+          calls++;
+          throw Object.assign(new Error('Server responded with status code 404'), { status: 404 });
+        },
+        { retries: 2, baseDelayMs: 0 }
+      )
+    ).rejects.toThrow('404');
+    expect(calls).toBe(1);
+  });
+
+  it('should classify transient errors', () => {
+    expect(isTransientError({ status: 429 })).toBe(true);
+    expect(isTransientError({ status: 500 })).toBe(true);
+    expect(isTransientError({ status: 404 })).toBe(false);
+    expect(isTransientError(new Error('Failed to fetch'))).toBe(true);
+    expect(isTransientError(new Error('Invalid DOI'))).toBe(false);
+  });
+});
@@ -0,0 +1,73 @@
+// Test bibliography code block options, filters and sorting
+import { matchesFilter, parseBlockOptions, sortByField } from '../src/utils/bibliographyBlock';
+
+describe('Bibliography Block', () => {
+  describe('parseBlockOptions', () => {
+    it('should read style, scope, sort and filter', () => {
+      expect(
+        parseBlockOptions({ style: 'ieee', scope: 'tag', tag: '#ml', sort: 'year desc', filter: { bibtype: 'book' } })
+      ).toEqual({
+        style: 'ieee',
+        scope: 'tag',
+        folder: undefined,
+        tag: 'ml',
+        sort: 'year desc',
+        filter: { bibtype: 'book' },
+      });
+    });
+
+    it('should default to the current note for empty blocks and unknown scopes', () => {
+      expect(parseBlockOptions({}).scope).toBe('current-note');
+      expect(parseBlockOptions(null).scope).toBe('current-note');
+      expect(parseBlockOptions('just text').scope).toBe('current-note');
+      expect(parseBlockOptions({ scope: 'everything' }).scope).toBe('current-note');
+    });
+
+    it('should turn numbers into text', () => {
+      expect(parseBlockOptions({ scope: 'folder', folder: 2023 }).folder).toBe('2023');
+    });
+  });
+
+  describe('matchesFilter', () => {
+    const source = {
+      title: 'Deep Learning',
+      author: ['LeCun, Yann', 'Bengio, Yoshua'],
+      keywords: ['neural networks'],
+      bibtype: 'article',
+      year: 2015,
+    };
+
+    it('should search title, authors and keywords for text filters', () => {
+      expect(matchesFilter(source, 'deep')).toBe(true);
+      expect(matchesFilter(source, 'bengio')).toBe(true);
+      expect(matchesFilter(source, 'Neural')).toBe(true);
+      expect(matchesFilter(source, 'article')).toBe(false);
+    });
+
+    it('should compare every field of a map filter', () => {
+      expect(matchesFilter(source, { bibtype: 'Article', year: 2015 })).toBe(true);
+      expect(matchesFilter(source, { keywords: 'neural networks' })).toBe(true);
+      expect(matchesFilter(source, { bibtype: 'article', year: 2016 })).toBe(false);
+      expect(matchesFilter(source, { publisher: 'MIT Press' })).toBe(false);
+    });
+  });
+
+  describe('sortByField', () => {
+    const sources = [
+      { title: 'B', year: '2020-05', author: ['van der Berg, Jan'] },
+      { title: 'a', year: 2019, author: ['Smith, John'] },
+      { title: 'C', year: '2021', author: ['Adams, Ann'] },
+    ];
+    const titles = (items: typeof sources) => items.map((item) => item.title);
+
+    it('should sort dates chronologically in both directions', () => {
+      expect(titles(sortByField(sources, 'year', (item) => item))).toEqual(['a', 'B', 'C']);
+      expect(titles(sortByField(sources, 'year desc', (item) => item))).toEqual(['C', 'B', 'a']);
+    });
+
+    it('should sort people by family name and text case-insensitively', () => {
+      expect(titles(sortByField(sources, 'author', (item) => item))).toEqual(['C', 'B', 'a']);
+      expect(titles(sortByField(sources, 'title', (item) => item))).toEqual(['a', 'B', 'C']);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+// Test bulk import parsing and merging helpers
+import {
+  citationEntryToSourceData,
+  detectBibliographyFormat,
+  duplicateCitekeys,
+  mergeSourceFrontmatter,
+  parseBibliographyEntries,
+} from '../src/utils/bulkImport';
+
+const BIBTEX = `@article{smith2023,
+  title = {Deep Things},
+  author = {Smith, John and Doe, Jane},
+  year = {2023},
+  journal = {Journal of Things}
+}
+@book{doe2020,
+  title = {A Book},
+  author = {Doe, Jane},
+  year = {2020},
+  publisher = {Publisher}
+}`;
+
+describe('Bulk Import', () => {
+  describe('detectBibliographyFormat', () => {
+    it('should detect format from file extension', () => {
+      expect(detectBibliographyFormat('', 'refs/library.bib')).toBe('bibtex');
+      expect(detectBibliographyFormat('', 'refs/library.json')).toBe('csl-json');
+      expect(detectBibliographyFormat('', 'refs/library.yml')).toBe('hayagriva');
+    });
+
+    it('should detect format from pasted content', () => {
+      expect(detectBibliographyFormat(BIBTEX)).toBe('bibtex');
+      expect(detectBibliographyFormat('[{"id": "a"}]')).toBe('csl-json');
+      expect(detectBibliographyFormat('key:\n  title: T\n')).toBe('hayagriva');
+    });
+  });
+
+  describe('parseBibliographyEntries', () => {
+    it('should parse every entry of a BibTeX file', async () => {
+      const entries = await parseBibliographyEntries(BIBTEX, 'bibtex');
+      expect(entries).toHaveLength(2);
+
+      const sources = entries.map((entry) =>
+        citationEntryToSourceData(entry, 'default', 'bibtex')
+      );
+      expect(sources.map((s) => s.citekey)).toEqual(['smith2023', 'doe2020']);
+      expect(sources[0].author).toEqual(['Smith, John', 'Doe, Jane']);
+      expect(sources[0].journal).toBe('Journal of Things');
+      expect(sources[1].bibtype).toBe('book');
+    });
+
+    it('should parse Hayagriva entries', async () => {
+      const yaml = 'doe2020:\n  title: A Book\n  author: Doe, Jane\n  date: 2020\n  type: book\n';
+      const entries = await parseBibliographyEntries(yaml, 'hayagriva');
+      const source = citationEntryToSourceData(entries[0], 'default', 'hayagriva');
+
+      expect(source.citekey).toBe('doe2020');
+      expect(source.title).toBe('A Book');
+      expect(source.year).toBe('2020');
+    });
+
+    it('should keep editors and translators', async () => {
+      const bib = '@book{kafka1925,\n  title = {Der Process},\n  author = {Kafka, Franz},\n  editor = {Brod, Max},\n  translator = {Muir, Willa and Muir, Edwin},\n  year = {1925}\n}';
+      const entries = await parseBibliographyEntries(bib, 'bibtex');
+      const source = citationEntryToSourceData(entries[0], 'default', 'bibtex');
+
+      expect(source.editor).toEqual(['Brod, Max']);
+      expect(source.translator).toEqual(['Muir, Willa', 'Muir, Edwin']);
+    });
+  });
+
+  describe('duplicateCitekeys', () => {
+    it('should find citekeys used by several entries of one file', () => {
+      const duplicates = duplicateCitekeys([
+        { citekey: 'smith2023' },
+        { citekey: 'doe2020' },
+        { citekey: 'smith2023' },
+        { citekey: '' },
+        {},
+      ]);
+
+      expect([...duplicates]).toEqual(['smith2023']);
+    });
+  });
+
+  describe('mergeSourceFrontmatter', () => {
+    it('should only fill missing fields', () => {
+      const frontmatter: Record<string, any> = {
+        citekey: 'smith2023',
+        title: 'Existing Title',
+        doi: '',
+        keywords: [],
+      };
+
+      const merged = mergeSourceFrontmatter(frontmatter, {
+        title: 'Other Title',
+        doi: '10.1000/xyz',
+        keywords: ['a'],
+        journal: undefined,
+      });
+
+      expect(merged).toEqual(['doi', 'keywords']);
+      expect(frontmatter.title).toBe('Existing Title');
+      expect(frontmatter.doi).toBe('10.1000/xyz');
+      expect(frontmatter.keywords).toEqual(['a']);
+    });
+
+    it('should merge dates in EDTF and skip impossible ones', () => {
+      const frontmatter: Record<string, any> = { citekey: 'smith2023' };
+
+      const merged = mergeSourceFrontmatter(frontmatter, { date: '2023-05-01T10:30:00Z', accessed: '2023-02-30' });
+
+      expect(merged).toEqual(['date']);
+      expect(frontmatter).toEqual({ citekey: 'smith2023', date: '2023-05-01' });
+    });
+  });
+});
@@ -0,0 +1,91 @@
+// Test citation extraction from documents
+import { extractCitekeys, formatCitation, rewriteCitekey } from '../src/utils/citations';
+
+describe('Citation Extraction', () => {
+  it('should extract wikilink citations', () => {
+    const text = 'As shown in [[@Smi23]] and [[@Doe20|Doe (2020)]].';
+    expect(extractCitekeys(text)).toEqual(['Smi23', 'Doe20']);
+  });
+
+  it('should extract Pandoc citations', () => {
+    const text = 'Known facts [@smith2023; @doe2020, p. 3]. @miller19 argues otherwise [-@lee2021].';
+    expect(extractCitekeys(text)).toEqual(['smith2023', 'doe2020', 'miller19', 'lee2021']);
+  });
+
+  it('should not include trailing punctuation in Pandoc citekeys', () => {
+    expect(extractCitekeys('See @smith2023.')).toEqual(['smith2023']);
+    expect(extractCitekeys('See @smith:2023:deep, too')).toEqual(['smith:2023:deep']);
+  });
+
+  it('should extract Typst citations', () => {
+    const text = 'Typst #cite(<smith2023>) and #cite(<doe2020>, supplement: [p. 7]) and #cite(label("lee-21")).';
+    expect(extractCitekeys(text)).toEqual(['smith2023', 'doe2020', 'lee-21']);
+  });
+
+  it('should extract LaTeX citations', () => {
+    const text = 'LaTeX \\cite{a2020,b2021} and \\citep[p.~3]{c2022}.';
+    expect(extractCitekeys(text)).toEqual(['a2020', 'b2021', 'c2022']);
+  });
+
+  it('should ignore emails, frontmatter and code', () => {
+    const text = [
+      '---',
+      'aliases: ["@Alias99"]',
+      '---',
+      'Mail me at someone@example.com.',
+      '`@inline` code',
+      '```',
+      '@fenced',
+      '```',
+      'Real [@real2024].',
+    ].join('\n');
+    expect(extractCitekeys(text)).toEqual(['real2024']);
+  });
+
+  it('should ignore handles in links', () => {
+    const text = 'A [post](https://medium.com/@smith2020), https://mastodon.social/@doe and mailto:@x, but [@real2024].';
+    expect(extractCitekeys(text)).toEqual(['real2024']);
+  });
+
+  it('should return each citekey once', () => {
+    expect(extractCitekeys('[@a] [@b] [[@a]] @b')).toEqual(['a', 'b']);
+  });
+
+  describe('formatCitation', () => {
+    it('should format citations in every supported syntax', () => {
+      expect(formatCitation(['Smi23'], 'wikilink')).toBe('[[@Smi23]]');
+      expect(formatCitation(['Smi23'], 'pandoc')).toBe('[@Smi23]');
+      expect(formatCitation(['Smi23'], 'latex')).toBe('\\cite{Smi23}');
+      expect(formatCitation(['Smi23'], 'typst')).toBe('@Smi23');
+    });
+
+    it('should round-trip through extractCitekeys', () => {
+      for (const format of ['wikilink', 'pandoc', 'latex', 'typst'] as const) {
+        const text = `Cited ${formatCitation(['a2020', 'b2021'], format)} here.`;
+        expect(extractCitekeys(text)).toEqual(['a2020', 'b2021']);
+      }
+    });
+  });
+});
+
+describe('rewriteCitekey', () => {
+  it('should rewrite all citation syntaxes', () => {
+    const text = 'See [[@old]], [[@old|Old]] and [@old; @older, p. 3] -@old @{old} \\citep[p. 1]{a, old} #cite(<old>) #cite(label("old")).';
+    const result = rewriteCitekey(text, 'old', 'new');
+    expect(result.text).toBe('See [[@new]], [[@new|Old]] and [@new; @older, p. 3] -@new @{new} \\citep[p. 1]{a, new} #cite(<new>) #cite(label("new")).');
+    expect(result.count).toBe(8);
+  });
+
+  it('should not touch other keys, emails or code', () => {
+    const text = 'mail a@old.com [[@old2]] @olden `@old`\n```\n@old\n```\n';
+    expect(rewriteCitekey(text, 'old', 'new')).toEqual({ text, count: 0 });
+  });
+
+  it('should not rewrite handles in links', () => {
+    const text = 'A [post](https://medium.com/@smith2020) and https://medium.com/@smith2020, by [@smith2020].';
+    expect(rewriteCitekey(text, 'smith2020', 'Smith20')).toEqual({
+      text: 'A [post](https://medium.com/@smith2020) and https://medium.com/@smith2020, by [@Smith20].',
+      count: 1,
+    });
+  });
+});
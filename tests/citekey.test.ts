@@ -0,0 +1,65 @@
+// Test citekey generation and disambiguation
+import { CitekeyGenerator } from '../src/utils/citekey';
+
+describe('Citekey Uniqueness', () => {
+  it('should keep a citekey that is not taken', () => {
+    expect(CitekeyGenerator.makeUnique('Smi23', new Set(['Doe20']))).toBe('Smi23');
+  });
+
+  it('should add letter suffixes to colliding citekeys', () => {
+    expect(CitekeyGenerator.makeUnique('Smi23', new Set(['Smi23']))).toBe('Smi23a');
+    expect(CitekeyGenerator.makeUnique('Smi23', new Set(['Smi23', 'Smi23a']))).toBe('Smi23b');
+  });
+
+  it('should continue with double letters after z', () => {
+    const existing = new Set(['Smi23']);
+    'abcdefghijklmnopqrstuvwxyz'.split('').forEach((letter) => existing.add(`Smi23${letter}`));
+    expect(CitekeyGenerator.makeUnique('Smi23', existing)).toBe('Smi23aa');
+  });
+
+  it('should add number suffixes when configured', () => {
+    expect(CitekeyGenerator.makeUnique('Smi23', new Set(['Smi23']), 'numbers')).toBe('Smi23_2');
+    expect(CitekeyGenerator.makeUnique('Smi23', new Set(['Smi23', 'Smi23_2']), 'numbers')).toBe('Smi23_3');
+  });
+});
+
+describe('Citekey Patterns', () => {
+  const source = {
+    title: 'Deep Learning for Écoles: A Survey',
+    author: ['Smith, John', 'Doe, Jane', 'Müller, Karl'],
+    year: 2023,
+    journal: 'Journal of Machine Learning Research',
+  };
+
+  it('should build Better BibTeX-style keys', () => {
+    expect(CitekeyGenerator.formatPattern('[auth:lower][year][veryshorttitle:lower]', source)).toBe('smith2023deep');
+    expect(CitekeyGenerator.formatPattern('[auth][shortyear]', source)).toBe('Smith23');
+  });
+
+  it('should support author lists', () => {
+    expect(CitekeyGenerator.formatPattern('[authors2]', source)).toBe('SmithDoeEtAl');
+    expect(CitekeyGenerator.formatPattern('[authors]', source)).toBe('SmithDoeMuller');
+  });
+
+  it('should support title tokens and modifiers', () => {
+    expect(CitekeyGenerator.formatPattern('[title:firstword]', source)).toBe('Deep');
+    expect(CitekeyGenerator.formatPattern('[shorttitle]', source)).toBe('DeepLearningEcoles');
+    expect(CitekeyGenerator.formatPattern('[journal:abbr]', source)).toBe('JMLR');
+    expect(CitekeyGenerator.formatPattern('[auth:3:upper]_[year]', source)).toBe('SMI_2023');
+  });
+
+  it('should drop unknown tokens and missing fields', () => {
+    expect(CitekeyGenerator.formatPattern('[auth][bogus][year]', { author: ['Smith'] })).toBe('Smith');
+  });
+
+  it('should fall back to the default scheme for empty patterns', () => {
+    expect(CitekeyGenerator.generateFromTitleAndAuthors('Deep Learning', ['Smith, John'], 2023)).toBe('Smi23');
+    expect(CitekeyGenerator.generateFromTitleAndAuthors('Deep Learning', [], 2023, '[auth]'))
+      .toBe(CitekeyGenerator.generateCitekey([], 2023, 'Deep Learning'));
+  });
+
+  it('should generate citekeys for sources without a year', () => {
+    expect(CitekeyGenerator.generateFromTitleAndAuthors('Deep Learning', ['Smith, John'], undefined)).toBe('Smi');
+    expect(CitekeyGenerator.generateFromTitleAndAuthors('', [], undefined)).toBe('Unknown');
+  });
+});
@@ -0,0 +1,101 @@
+// Test CSL style loading and formatted bibliographies
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+// @ts-ignore - citation-js doesn't have official TypeScript types
+import { Cite } from '@citation-js/core';
+import { FORMAT_EXTENSION_MAPPING } from '../src/types/interfaces';
+import { getBibliographyOutputPath } from '../src/utils/sources';
+import { DEFAULT_SETTINGS } from '../src/types/settings';
+
+jest.mock('obsidian', () => {
+  class TFile {
+    constructor(public path: string) {}
+    get basename() {
+      return this.path.split('/').pop()!.replace(/\.[^.]+$/, '');
+    }
+    get extension() {
+      return this.path.split('.').pop();
+    }
+  }
+  class TFolder {
+    constructor(public path: string, public children: unknown[]) {}
+  }
+  return { TFile, TFolder, normalizePath: (path: string) => path };
+});
+
+import { TFile, TFolder } from 'obsidian';
+import { formatCslBibliography, getAvailableCslStyles, loadCslResources } from '../src/utils/csl';
+
+const FIXTURES = join(__dirname, 'fixtures', 'csl');
+const entries = JSON.parse(readFileSync(join(FIXTURES, 'entries.json'), 'utf8'));
+
+// A vault with the fixture styles folder at "csl"
+function mockApp() {
+  const files = readdirSync(join(FIXTURES, 'styles')).map((name) => new (TFile as any)(`csl/${name}`));
+  const folder = new (TFolder as any)('csl', files);
+  return {
+    vault: {
+      getAbstractFileByPath: (path: string) => (path === 'csl' ? folder : null),
+      cachedRead: async (file: { path: string }) =>
+        readFileSync(join(FIXTURES, 'styles', file.path.replace(/^csl\//, '')), 'utf8'),
+    },
+  } as any;
+}
+
+describe('CSL bibliographies', () => {
+  it('should format entries with a built-in style', () => {
+    const output = formatCslBibliography(new Cite(entries), 'APA', 'en-US');
+
+    expect(output).toBe('Doe, J. (2020). A Book. Publisher.\nSmith, J. (2023). Deep Things. Journal of Things.\n');
+  });
+
+  it('should keep the order of the entries when asked', () => {
+    const output = formatCslBibliography(new Cite(entries), 'apa', 'en-US', 'text', true);
+
+    expect(output).toBe('Smith, J. (2023). Deep Things. Journal of Things.\nDoe, J. (2020). A Book. Publisher.\n');
+  });
+
+  it('should format entries with a style loaded from the vault', async () => {
+    const resources = await loadCslResources(mockApp(), 'csl');
+
+    expect(resources.styles).toEqual(['short-list']);
+    expect(getAvailableCslStyles()).toContain('short-list');
+    expect(formatCslBibliography(new Cite(entries), 'short-list', 'en-US')).toBe(
+      'Doe (2020): A Book\nSmith (2023): Deep Things\n'
+    );
+  });
+
+  it('should register locale files by their language code', async () => {
+    const resources = await loadCslResources(mockApp(), 'csl');
+
+    expect(resources.locales).toEqual(['de-AT']);
+  });
+
+  it('should fall back to the built-in styles when the styles folder is missing', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const resources = await loadCslResources(mockApp(), 'missing');
+
+    expect(resources).toEqual({ styles: [], locales: [] });
+    expect(warn).toHaveBeenCalledWith('CSL styles folder not found: missing');
+    expect(formatCslBibliography(new Cite(entries), 'vancouver', 'en-US')).toContain('1.  Smith J. Deep Things.');
+    warn.mockRestore();
+  });
+
+  it('should name the available styles for an unknown style', () => {
+    expect(() => formatCslBibliography(new Cite(entries), 'chicago', 'en-US')).toThrow(
+      /Unknown CSL style "chicago"\. Available styles: apa, vancouver, harvard1/
+    );
+  });
+
+  it('should write formatted bibliographies as markdown files', () => {
+    expect(FORMAT_EXTENSION_MAPPING.csl).toBe('.md');
+    expect(
+      getBibliographyOutputPath({
+        ...DEFAULT_SETTINGS,
+        bibliographyFormat: 'csl',
+        bibliographyOutputFolder: 'exports',
+        bibliographyFilename: 'references',
+      })
+    ).toBe('exports/references.md');
+  });
+});
@@ -0,0 +1,71 @@
+// Test EDTF / ISO date parsing and formatting
+import { dateSortKey, formatDate, normalizeDate, normalizeDateFields, parseDate } from '../src/utils/dates';
+
+describe('Date Parsing', () => {
+  it('should parse years, months and days', () => {
+    expect(parseDate(2023)).toEqual({ 'date-parts': [[2023]] });
+    expect(parseDate('2023-05')).toEqual({ 'date-parts': [[2023, 5]] });
+    expect(parseDate('2023-05-01')).toEqual({ 'date-parts': [[2023, 5, 1]] });
+    expect(parseDate('2023-05-01T10:30:00Z')).toEqual({ 'date-parts': [[2023, 5, 1]] });
+  });
+
+  it('should parse ranges and approximate dates', () => {
+    expect(parseDate('2020/2021')).toEqual({ 'date-parts': [[2020], [2021]] });
+    expect(parseDate('2020-05/..')).toEqual({ 'date-parts': [[2020, 5]] });
+    expect(parseDate('2023~')).toEqual({ 'date-parts': [[2023]], circa: true });
+    expect(parseDate('~2023-05')).toEqual({ 'date-parts': [[2023, 5]], circa: true });
+  });
+
+  it('should parse seasons', () => {
+    expect(parseDate('2023-22')).toEqual({ 'date-parts': [[2023]], season: 2 });
+  });
+
+  it('should reject days that do not exist', () => {
+    expect(parseDate('2023-02-30')).toBeNull();
+    expect(parseDate('2023-04-31')).toBeNull();
+    expect(parseDate('2023-02-29')).toBeNull();
+    expect(parseDate('2024-02-29')).toEqual({ 'date-parts': [[2024, 2, 29]] });
+    expect(parseDate('2000-02-29')).toEqual({ 'date-parts': [[2000, 2, 29]] });
+    expect(parseDate('1900-02-29')).toBeNull();
+    expect(parseDate('2023-13')).toBeNull();
+    expect(parseDate('2020-01-01/2020-02-30')).toBeNull();
+  });
+
+  it('should keep unparseable dates as literal', () => {
+    expect(parseDate('Spring term 2023')).toEqual({ 'date-parts': [[2023]], literal: 'Spring term 2023' });
+    expect(parseDate('')).toBeNull();
+  });
+});
+
+describe('Date Formatting', () => {
+  it('should format CSL dates as EDTF', () => {
+    expect(formatDate({ 'date-parts': [[2023, 5, 1]] })).toBe('2023-05-01');
+    expect(formatDate({ 'date-parts': [[2020, 5], [2021]], circa: true })).toBe('2020-05~/2021~');
+    expect(formatDate({ 'date-parts': [[2023]], season: 3 })).toBe('2023-23');
+    expect(formatDate({ 'raw': '2019-12-24' } as any)).toBe('2019-12-24');
+  });
+
+  it('should round-trip EDTF strings', () => {
+    ['2023', '2023-05-01', '2020/2021', '2023~', '2023-21'].forEach((date) => {
+      expect(normalizeDate(date)).toBe(date);
+    });
+  });
+
+  it('should normalize the date fields of a source', () => {
+    const source: Record<string, any> = {
+      date: '2023-05-01T10:30:00Z',
+      accessed: new Date(2024, 0, 15),
+      added: '2023-02-30',
+      started: '',
+      title: '2023-05-01T10:30:00Z',
+    };
+    normalizeDateFields(source);
+
+    expect(source).toEqual({ date: '2023-05-01', accessed: '2024-01-15', started: '', title: '2023-05-01T10:30:00Z' });
+  });
+
+  it('should sort dates chronologically', () => {
+    expect(dateSortKey('2023') < dateSortKey('2023-01-05')).toBe(true);
+    expect(dateSortKey('2022-12~') < dateSortKey(2023)).toBe(true);
+  });
+});
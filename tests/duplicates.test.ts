@@ -0,0 +1,52 @@
+// Test duplicate source detection
+import { findDuplicates, normalizeTitle, titleSimilarity } from '../src/utils/duplicates';
+
+const candidate = (path: string, frontmatter: Record<string, any>) => ({ path, frontmatter });
+
+describe('Duplicate Detection', () => {
+  it('should normalize titles', () => {
+    expect(normalizeTitle('Über <i>Deep</i> Learning: A Survey!')).toBe('uber deep learning a survey');
+  });
+
+  it('should score similar titles highly', () => {
+    expect(titleSimilarity('Deep Learning', 'Deep learning.')).toBe(1);
+    expect(titleSimilarity('Deep Learning for Cats', 'Deep Learning for Cat')).toBeGreaterThan(0.9);
+    expect(titleSimilarity('Deep Learning', 'Shallow Parsing')).toBeLessThan(0.5);
+  });
+
+  it('should match DOIs regardless of prefix and case', () => {
+    const pairs = findDuplicates([
+      candidate('a.md', { citekey: 'a', doi: 'https://doi.org/10.1000/ABC' }),
+      candidate('b.md', { citekey: 'b', doi: 'doi:10.1000/abc' }),
+    ]);
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0].reasons).toEqual(['same DOI']);
+  });
+
+  it('should match ISBNs regardless of hyphens', () => {
+    const pairs = findDuplicates([
+      candidate('a.md', { citekey: 'a', isbn: '978-0-262-03384-8' }),
+      candidate('b.md', { citekey: 'b', isbn: '9780262033848' }),
+    ]);
+    expect(pairs[0].reasons).toEqual(['same ISBN']);
+  });
+
+  it('should match fuzzy title with same year and first author', () => {
+    const pairs = findDuplicates([
+      candidate('a.md', { citekey: 'Smi23', title: 'Attention Is All You Need', year: 2023, author: ['Smith, John'] }),
+      candidate('b.md', { citekey: 'Smi23a', title: 'Attention is all you need.', year: '2023', author: ['John Smith'] }),
+      candidate('c.md', { citekey: 'Smi22', title: 'Attention Is All You Need', year: 2022, author: ['Smith, John'] }),
+    ]);
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0].a.path).toBe('a.md');
+    expect(pairs[0].b.path).toBe('b.md');
+  });
+
+  it('should report duplicate citekeys', () => {
+    const pairs = findDuplicates([
+      candidate('a.md', { citekey: 'Smi23', title: 'One' }),
+      candidate('b.md', { citekey: 'Smi23', title: 'Two' }),
+    ]);
+    expect(pairs[0].reasons).toEqual(['same citekey']);
+  });
+});
@@ -0,0 +1,83 @@
+// Test ISBN-10/ISBN-13 conversion, hyphenation and normalization of stored ISBNs
+import {
+  formatIsbn,
+  hyphenateIsbn,
+  isbnKey,
+  normalizedIsbnFields,
+  primaryIsbn,
+  toIsbn10,
+  toIsbn13,
+} from '../src/utils/identifiers';
+import { findDuplicates } from '../src/utils/duplicates';
+import { processCitationData } from '../src/utils/citationData';
+
+describe('ISBN Conversion', () => {
+  it('should convert ISBN-10 to ISBN-13 and back', () => {
+    expect(toIsbn13('0-262-03384-4')).toBe('9780262033848');
+    expect(toIsbn13('978-0-262-03384-8')).toBe('9780262033848');
+    expect(toIsbn10('9780262033848')).toBe('0262033844');
+    expect(toIsbn13('0-8044-2957-X')).toBe('9780804429573');
+    expect(toIsbn10('9780804429573')).toBe('080442957X');
+  });
+
+  it('should reject wrong check digits', () => {
+    expect(toIsbn13('978-0-262-03384-9')).toBeNull();
+    expect(toIsbn13('0-262-03384-5')).toBeNull();
+    expect(toIsbn10('12345')).toBeNull();
+  });
+
+  it('should not give 979 ISBNs an ISBN-10', () => {
+    expect(toIsbn10('979-10-90636-07-1')).toBeNull();
+  });
+});
+
+describe('ISBN Hyphenation', () => {
+  it('should hyphenate by registration group and registrant range', () => {
+    expect(hyphenateIsbn('9780262033848')).toBe('978-0-262-03384-8');
+    expect(hyphenateIsbn('0262033844')).toBe('978-0-262-03384-8');
+    expect(hyphenateIsbn('9783161484100')).toBe('978-3-16-148410-0');
+    expect(hyphenateIsbn('9781402894626')).toBe('978-1-4028-9462-6');
+    expect(hyphenateIsbn('9791090636071')).toBe('979-10-90636-07-1');
+  });
+
+  it('should leave ISBNs of unknown groups unhyphenated', () => {
+    expect(hyphenateIsbn('9788937460449')).toBeNull();
+    expect(formatIsbn('978-89-374-6044-9', true)).toBe('9788937460449');
+  });
+
+  it('should format stored ISBNs as ISBN-13', () => {
+    expect(formatIsbn('0-262-03384-4')).toBe('9780262033848');
+    expect(formatIsbn('0-262-03384-4', true)).toBe('978-0-262-03384-8');
+    expect(formatIsbn(' not an isbn ')).toBe('not an isbn');
+  });
+});
+
+describe('ISBN Normalization', () => {
+  it('should pick the first valid ISBN of a list', () => {
+    expect(primaryIsbn('9780262033848 0262033844')).toBe('9780262033848');
+    expect(primaryIsbn(['0262033844', '9780262033848'])).toBe('9780262033848');
+    expect(primaryIsbn('978-0-262-03384-9')).toBeNull();
+  });
+
+  it('should normalize frontmatter ISBN fields', () => {
+    expect(normalizedIsbnFields({ isbn: '0-262-03384-4' })).toEqual({ isbn: '9780262033848', isbn10: '0262033844' });
+    expect(normalizedIsbnFields({ isbn: '9791090636071' }, true)).toEqual({ isbn: '979-10-90636-07-1' });
+    expect(normalizedIsbnFields({ isbn: '12345' })).toBeNull();
+  });
+
+  it('should store canonical ISBNs on import', () => {
+    const sourceData: any = {};
+    processCitationData({ type: 'book', title: 'CLRS', ISBN: '0-262-03384-4 978-0-262-03384-8' }, sourceData, 'default', 'isbn');
+    expect(sourceData.isbn).toBe('9780262033848');
+    expect(sourceData.isbn10).toBe('0262033844');
+  });
+
+  it('should find duplicates across ISBN-10 and ISBN-13', () => {
+    expect(isbnKey('0-262-03384-4')).toBe(isbnKey('978-0-262-03384-8'));
+    const pairs = findDuplicates([
+      { path: 'a.md', frontmatter: { citekey: 'a', isbn: '0-262-03384-4' } },
+      { path: 'b.md', frontmatter: { citekey: 'b', isbn: '978-0-262-03384-8' } },
+    ]);
+    expect(pairs[0].reasons).toEqual(['same ISBN']);
+  });
+});
@@ -0,0 +1,122 @@
+// Test merging duplicate source notes
+jest.mock('obsidian', () => {
+  class TFile {
+    constructor(public path: string) {}
+    get basename() {
+      return this.path.split('/').pop()!.replace(/\.md$/, '');
+    }
+  }
+  class TFolder {}
+  return {
+    TFile,
+    TFolder,
+    Notice: jest.fn(),
+    normalizePath: (path: string) => path,
+    parseLinktext: (link: string) => ({ path: link, subpath: '' }),
+    parseYaml: jest.fn(),
+    stringifyYaml: jest.fn(),
+  };
+});
+
+import { TFile } from 'obsidian';
+import { SourceService } from '../src/sourceService';
+
+// An in-memory vault: note contents and their frontmatter
+function mockApp(notes: Record<string, { content: string; frontmatter?: Record<string, any> }>) {
+  const files = Object.keys(notes).map((path) => new (TFile as any)(path));
+  const trashed: string[] = [];
+  const app = {
+    vault: {
+      getMarkdownFiles: () => files.filter((file) => !trashed.includes(file.path)),
+      read: async (file: TFile) => notes[file.path].content,
+      cachedRead: async (file: TFile) => notes[file.path].content,
+      process: async (file: TFile, fn: (data: string) => string) => {
+        notes[file.path].content = fn(notes[file.path].content);
+      },
+    },
+    metadataCache: {
+      resolvedLinks: {},
+      getFileCache: (file: TFile) => ({ frontmatter: notes[file.path].frontmatter }),
+    },
+    fileManager: {
+      processFrontMatter: async (file: TFile, fn: (fm: Record<string, any>) => void) => {
+        notes[file.path].frontmatter = notes[file.path].frontmatter || {};
+        fn(notes[file.path].frontmatter!);
+      },
+      trashFile: async (file: TFile) => {
+        trashed.push(file.path);
+      },
+    },
+  };
+  const file = (path: string) => files.find((f) => f.path === path)!;
+  return { app: app as any, file, trashed };
+}
+
+describe('mergeSourceNotes', () => {
+  it('should cite the kept citekey instead of the removed one', async () => {
+    const notes = {
+      'sources/Deep Learning.md': {
+        content: '---\ncitekey: LeCun15\n---\nNotes',
+        frontmatter: { citekey: 'LeCun15', aliases: ['@LeCun15'] },
+      },
+      'sources/Deep learning (copy).md': {
+        content: '---\ncitekey: Lec15a\n---\n',
+        frontmatter: { citekey: 'Lec15a' },
+      },
+      'drafts/Chapter 1.md': {
+        content: 'As shown [@Lec15a, p. 3] and in [[@Lec15a]], see also \\cite{Other20,Lec15a}.\n`@Lec15a` stays in code.',
+      },
+      'drafts/Chapter 2.md': {
+        content: 'Unrelated [@Other20].',
+      },
+    };
+    const { app, file, trashed } = mockApp(notes);
+    const service = new SourceService(app);
+
+    const result = await service.mergeSourceNotes(
+      file('sources/Deep Learning.md'),
+      file('sources/Deep learning (copy).md'),
+      { citekey: 'LeCun15' }
+    );
+
+    expect(result).toEqual({ updatedFiles: 0, rewrittenCitations: 3 });
+    expect(notes['drafts/Chapter 1.md'].content).toBe(
+      'As shown [@LeCun15, p. 3] and in [[@LeCun15]], see also \\cite{Other20,LeCun15}.\n`@Lec15a` stays in code.'
+    );
+    expect(notes['drafts/Chapter 2.md'].content).toBe('Unrelated [@Other20].');
+    expect(notes['sources/Deep Learning.md'].frontmatter.aliases).toEqual(['@LeCun15', '@Lec15a']);
+    expect(trashed).toEqual(['sources/Deep learning (copy).md']);
+  });
+
+  it('should keep the citekey of the kept note when the other key is chosen', async () => {
+    const notes = {
+      'sources/Attention.md': {
+        content: '---\ncitekey: Vaswani17\n---\n',
+        frontmatter: { citekey: 'Vaswani17', title: 'Attention' },
+      },
+      'sources/Attention Is All You Need.md': {
+        content: '---\ncitekey: VasSha17\n---\n',
+        frontmatter: { citekey: 'VasSha17', title: 'Attention is all you need', aliases: ['@VasSha17'] },
+      },
+      'drafts/Chapter 1.md': {
+        content: 'See [@Vaswani17] and [[@VasSha17]].',
+      },
+    };
+    const { app, file } = mockApp(notes);
+    const service = new SourceService(app);
+
+    // Keep B, with A's citekey picked in the field choices
+    const result = await service.mergeSourceNotes(
+      file('sources/Attention Is All You Need.md'),
+      file('sources/Attention.md'),
+      { citekey: 'Vaswani17', title: 'Attention Is All You Need' }
+    );
+
+    const kept = notes['sources/Attention Is All You Need.md'].frontmatter;
+    expect(kept.citekey).toBe('VasSha17');
+    expect(kept.title).toBe('Attention Is All You Need');
+    expect(kept.aliases).toEqual(['@VasSha17', '@Vaswani17']);
+    expect(result.rewrittenCitations).toBe(1);
+    expect(notes['drafts/Chapter 1.md'].content).toBe('See [@VasSha17] and [[@VasSha17]].');
+  });
+});
@@ -0,0 +1,70 @@
+// Test structured name parsing and formatting
+import { displayName, familyName, formatName, nameSortKey, nameTemplateVariables, parseName } from '../src/utils/names';
+
+describe('Name Parsing', () => {
+  it('should parse "Given Family" and "Family, Given"', () => {
+    expect(parseName('John Smith')).toEqual({ given: 'John', family: 'Smith' });
+    expect(parseName('Smith, John')).toEqual({ given: 'John', family: 'Smith' });
+    expect(parseName('J. R. R. Tolkien')).toEqual({ given: 'J. R. R.', family: 'Tolkien' });
+  });
+
+  it('should recognize particles', () => {
+    expect(parseName('van der Berg, Jan')).toEqual({ 'non-dropping-particle': 'van der', family: 'Berg', given: 'Jan' });
+    expect(parseName('Ludwig van Beethoven')).toEqual({ given: 'Ludwig', 'non-dropping-particle': 'van', family: 'Beethoven' });
+    expect(parseName('van Gogh')).toEqual({ 'non-dropping-particle': 'van', family: 'Gogh' });
+  });
+
+  it('should parse suffixes and literal names', () => {
+    expect(parseName('King, Jr., Martin Luther')).toEqual({ family: 'King', suffix: 'Jr.', given: 'Martin Luther' });
+    expect(parseName('{World Health Organization}')).toEqual({ literal: 'World Health Organization' });
+    expect(parseName('Plato')).toEqual({ family: 'Plato' });
+  });
+
+  it('should read a trailing "Jr." or generation number as a suffix', () => {
+    expect(parseName('Martin Luther King, Jr.')).toEqual({ given: 'Martin Luther', family: 'King', suffix: 'Jr.' });
+    expect(parseName('Ludwig van Beethoven, Sr')).toEqual({
+      given: 'Ludwig',
+      'non-dropping-particle': 'van',
+      family: 'Beethoven',
+      suffix: 'Sr',
+    });
+    expect(parseName('John Smith, III')).toEqual({ given: 'John', family: 'Smith', suffix: 'III' });
+    expect(formatName('Martin Luther King, Jr.')).toBe('King, Jr., Martin Luther');
+    // Given names that merely look short stay given names
+    expect(parseName('Smith, Ivy')).toEqual({ family: 'Smith', given: 'Ivy' });
+  });
+});
+
+describe('Name Formatting', () => {
+  it('should round-trip names', () => {
+    ['Smith, John', 'van der Berg, Jan', 'King, Jr., Martin Luther', '{World Health Organization}', 'Plato'].forEach((name) => {
+      expect(formatName(parseName(name))).toBe(name);
+    });
+  });
+
+  it('should format CSL names', () => {
+    expect(formatName({ family: 'Beethoven', given: 'Ludwig', 'non-dropping-particle': 'van' })).toBe('van Beethoven, Ludwig');
+    expect(formatName({ literal: 'CERN' })).toBe('{CERN}');
+    // A multi-word family name without given name would be split on reparse
+    expect(formatName({ family: 'World Health Organization' })).toBe('{World Health Organization}');
+  });
+
+  it('should display, match and sort names', () => {
+    expect(displayName('van der Berg, Jan')).toBe('Jan van der Berg');
+    expect(displayName('{World Health Organization}')).toBe('World Health Organization');
+    expect(familyName('Ludwig van Beethoven')).toBe('Beethoven');
+    expect(familyName('{World Health Organization}')).toBe('World Health Organization');
+    expect(nameSortKey('van der Berg, Jan') < nameSortKey('Clark, Anna')).toBe(true);
+  });
+});
+
+describe('Name Template Variables', () => {
+  it('should provide lists for every contributor role', () => {
+    const variables = nameTemplateVariables({ author: ['Kafka, Franz'], translator: ['Muir, Willa', 'Muir, Edwin'] });
+    expect(variables.authorList).toBe('Franz Kafka');
+    expect(variables.translatorList).toBe('Willa Muir, Edwin Muir');
+    expect(variables.editor).toEqual([]);
+    expect(variables.editorArray).toBe('[]');
+    expect(variables.author).toBeUndefined();
+  });
+});
@@ -0,0 +1,120 @@
+// Test PubMed ID parsing and E-utilities response mapping against canned responses
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { fetchPubmedCitation, parsePubmedId, pubmedArticleToCsl } from '../src/utils/pubmed';
+import { processCitationData } from '../src/utils/citationData';
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', 'pubmed', name), 'utf8');
+
+// Serves canned efetch/elink responses and remembers the requested URLs
+const cannedFetcher = () => {
+  const requested: string[] = [];
+  const fetcher = async (url: string) => {
+    requested.push(url);
+    if (url.includes('elink.fcgi') && url.endsWith('id=7745181')) return fixture('elink-PMC7745181.json');
+    if (url.includes('efetch.fcgi') && url.endsWith('id=33301246')) return fixture('33301246.xml');
+    if (url.includes('efetch.fcgi')) return fixture('empty.xml');
+    throw new Error(`Unexpected request: ${url}`);
+  };
+  return { fetcher, requested };
+};
+
+describe('PubMed IDs', () => {
+  it('should recognize PMIDs and PMCIDs', () => {
+    expect(parsePubmedId('33301246')).toEqual({ type: 'pmid', value: '33301246' });
+    expect(parsePubmedId('PMID: 33301246')).toEqual({ type: 'pmid', value: '33301246' });
+    expect(parsePubmedId('https://pubmed.ncbi.nlm.nih.gov/33301246/')).toEqual({ type: 'pmid', value: '33301246' });
+    expect(parsePubmedId('pmc7745181')).toEqual({ type: 'pmcid', value: 'PMC7745181' });
+    expect(parsePubmedId('https://www.ncbi.nlm.nih.gov/pmc/articles/PMC7745181/')).toEqual({
+      type: 'pmcid',
+      value: 'PMC7745181',
+    });
+  });
+
+  it('should reject other input', () => {
+    expect(parsePubmedId('10.1056/NEJMoa2034577')).toBeNull();
+    expect(parsePubmedId('PMC')).toBeNull();
+    expect(parsePubmedId('')).toBeNull();
+  });
+});
+
+describe('PubMed Article Mapping', () => {
+  const csl = pubmedArticleToCsl(fixture('33301246.xml'));
+
+  it('should map bibliographic fields', () => {
+    expect(csl.title).toBe('Safety and Efficacy of the BNT162b2 mRNA Covid-19 Vaccine');
+    expect(csl['container-title']).toBe('The New England journal of medicine');
+    expect(csl['container-title-short']).toBe('N Engl J Med');
+    expect(csl.volume).toBe('383');
+    expect(csl.issue).toBe('27');
+    expect(csl.page).toBe('2603-2615');
+    expect(csl.issued).toEqual({ 'date-parts': [[2020, 12, 31]] });
+  });
+
+  it('should map the article IDs, ignoring cited references', () => {
+    expect(csl.PMID).toBe('33301246');
+    expect(csl.PMCID).toBe('PMC7745181');
+    expect(csl.DOI).toBe('10.1056/NEJMoa2034577');
+  });
+
+  it('should map persons, suffixes and group authors', () => {
+    const author = csl.author as unknown[];
+    expect(author).toHaveLength(5);
+    expect(author[0]).toEqual({ family: 'Polack', given: 'Fernando P' });
+    expect(author[3]).toEqual({ family: 'Gruber', given: 'William C', suffix: 'Jr' });
+    expect(author[4]).toEqual({ literal: 'C4591001 Clinical Trial Group' });
+  });
+
+  it('should use MeSH descriptors as keywords', () => {
+    expect(csl.keyword).toEqual(['Adolescent', 'COVID-19', 'COVID-19 Vaccines', 'Humans']);
+  });
+
+  it('should join labelled abstract sections', () => {
+    expect(csl.abstract).toMatch(/^BACKGROUND: Severe acute respiratory/);
+    expect(csl.abstract).toContain('METHODS: In an ongoing');
+    expect(csl.abstract).toContain('(30 μg per dose)');
+    expect(csl.abstract).toContain('ClinicalTrials.gov number, NCT04368728');
+    expect(csl.abstract).not.toContain('Copyright');
+  });
+
+  it('should go through the shared import pipeline', () => {
+    const sourceData: any = {};
+    processCitationData(csl, sourceData, 'default', 'pubmed');
+
+    expect(sourceData.author[0]).toBe('Polack, Fernando P');
+    expect(sourceData.author[4]).toBe('{C4591001 Clinical Trial Group}');
+    expect(sourceData.journal).toBe('The New England journal of medicine');
+    expect(sourceData.shortjournal).toBe('N Engl J Med');
+    expect(sourceData.pmid).toBe('33301246');
+    expect(sourceData.pmcid).toBe('PMC7745181');
+    expect(sourceData.date).toBe('2020-12-31');
+    expect(sourceData.bibtype).toBe('article-journal');
+    expect(sourceData.keywords).toContain('COVID-19 Vaccines');
+  });
+});
+
+describe('PubMed Lookup', () => {
+  it('should fetch a PMID', async () => {
+    const { fetcher, requested } = cannedFetcher();
+    const csl = await fetchPubmedCitation('PMID: 33301246', fetcher);
+
+    expect(csl.PMID).toBe('33301246');
+    expect(requested).toHaveLength(1);
+    expect(requested[0]).toContain('db=pubmed');
+  });
+
+  it('should resolve a PMCID to its PMID first', async () => {
+    const { fetcher, requested } = cannedFetcher();
+    const csl = await fetchPubmedCitation('PMC7745181', fetcher);
+
+    expect(csl.title).toBe('Safety and Efficacy of the BNT162b2 mRNA Covid-19 Vaccine');
+    expect(requested).toHaveLength(2);
+    expect(requested[0]).toContain('elink.fcgi');
+    expect(requested[1]).toContain('efetch.fcgi');
+  });
+
+  it('should report unknown PMIDs', async () => {
+    const { fetcher } = cannedFetcher();
+    await expect(fetchPubmedCitation('1', fetcher)).rejects.toThrow('No PubMed article found');
+  });
+});
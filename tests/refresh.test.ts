@@ -0,0 +1,110 @@
+// Test choosing the lookup identifier and diffing refreshed metadata against a source note
+import { applyFieldChanges, diffSourceFields, isFillingChange, refreshTarget } from '../src/utils/refresh';
+
+describe('Refresh Target', () => {
+  it('should prefer the DOI', () => {
+    expect(refreshTarget({ doi: 'https://doi.org/10.1056/NEJMoa2034577', isbn: '9780262033848' })).toEqual({
+      type: 'doi',
+      value: '10.1056/NEJMoa2034577',
+    });
+  });
+
+  it('should use the arXiv API instead of the arXiv DOI', () => {
+    expect(refreshTarget({ doi: '10.48550/arXiv.1706.03762', arxiv: '1706.03762' })).toEqual({
+      type: 'arxiv',
+      value: '1706.03762',
+    });
+    expect(refreshTarget({ doi: '10.1000/published', arxiv: '1706.03762' })).toEqual({
+      type: 'doi',
+      value: '10.1000/published',
+    });
+  });
+
+  it('should fall back to the ISBN and then the URL', () => {
+    expect(refreshTarget({ isbn: 9780262033848 })).toEqual({ type: 'isbn', value: '9780262033848' });
+    expect(refreshTarget({ url: 'https://example.org/post' })).toEqual({
+      type: 'url',
+      value: 'https://example.org/post',
+    });
+    expect(refreshTarget({ title: 'No identifiers' })).toBeNull();
+  });
+});
+
+describe('Refresh Diff', () => {
+  const frontmatter = {
+    citekey: 'Pol20',
+    title: 'Safety and Efficacy of the BNT162b2 mRNA Covid-19 Vaccine',
+    author: ['Polack, Fernando P', 'Thomas, Stephen J'],
+    year: 2020,
+    volume: '',
+    journal: 'N Engl J Med',
+    keywords: [],
+    filelink: '[[attachments/Pol20.pdf]]',
+  };
+  const sourceData = {
+    citekey: 'Polack2020',
+    title: 'Safety and Efficacy of the BNT162b2 mRNA Covid-19 Vaccine',
+    author: ['Polack, Fernando P', 'Thomas, Stephen J'],
+    year: '2020',
+    volume: '383',
+    journal: 'New England Journal of Medicine',
+    abstract: 'Severe acute respiratory syndrome...',
+    keywords: ['COVID-19'],
+    pages: undefined,
+  };
+
+  it('should report only fields with different values', () => {
+    const changes = diffSourceFields(frontmatter, sourceData);
+
+    expect(changes.map(({ field }) => field)).toEqual(['journal', 'volume', 'abstract', 'keywords']);
+    expect(changes.find(({ field }) => field === 'journal')).toEqual({
+      field: 'journal',
+      current: 'N Engl J Med',
+      incoming: 'New England Journal of Medicine',
+    });
+  });
+
+  it('should never touch the citekey or clear fields the lookup did not return', () => {
+    const changes = diffSourceFields(frontmatter, { ...sourceData, journal: '', url: undefined });
+
+    expect(changes.map(({ field }) => field)).not.toContain('citekey');
+    expect(changes.map(({ field }) => field)).not.toContain('journal');
+  });
+
+  it('should tell filling changes from replacing ones', () => {
+    const changes = diffSourceFields(frontmatter, sourceData);
+
+    expect(changes.filter(isFillingChange).map(({ field }) => field)).toEqual(['volume', 'abstract', 'keywords']);
+  });
+
+  it('should compare and write dates in EDTF', () => {
+    const dated = { ...frontmatter, date: '2020-12-10' };
+
+    expect(diffSourceFields(dated, { date: '2020-12-10T00:00:00Z' })).toEqual([]);
+    expect(diffSourceFields(dated, { date: '2020-02-30' })).toEqual([]);
+    expect(diffSourceFields({ ...frontmatter, date: '2020' }, { date: '2020-12-10T00:00:00Z' })).toEqual([
+      { field: 'date', current: '2020', incoming: '2020-12-10' },
+    ]);
+  });
+
+  it('should compare identifiers by their canonical form', () => {
+    const identified = { ...frontmatter, isbn: '978-0-262-03384-8', doi: '10.1056/NEJMoa2034577' };
+
+    expect(
+      diffSourceFields(identified, { isbn: '9780262033848', doi: 'https://doi.org/10.1056/nejmoa2034577' })
+    ).toEqual([]);
+    expect(diffSourceFields(identified, { isbn: '0262033844' })).toEqual([]);
+    expect(diffSourceFields(identified, { isbn: '9780262046305' }).map(({ field }) => field)).toEqual(['isbn']);
+  });
+
+  it('should write only the accepted changes', () => {
+    const changes = diffSourceFields(frontmatter, sourceData).filter(isFillingChange);
+    const updated: Record<string, any> = { ...frontmatter };
+    applyFieldChanges(updated, changes);
+
+    expect(updated.volume).toBe('383');
+    expect(updated.keywords).toEqual(['COVID-19']);
+    expect(updated.journal).toBe('N Engl J Med');
+    expect(updated.filelink).toBe('[[attachments/Pol20.pdf]]');
+  });
+});
@@ -0,0 +1,90 @@
+// Test the notes that imports write with the default source note template
+jest.mock('obsidian', () => ({
+  Notice: jest.fn(),
+  TFile: class {},
+  TFolder: class {},
+  stringifyYaml: jest.fn(),
+}));
+
+import { parse } from 'yaml';
+import { DEFAULT_SETTINGS } from '../src/types/settings';
+import { SourceImporter } from '../src/utils/soureImporter';
+import { NAME_ROLES, parseNameList } from '../src/utils/names';
+
+// A vault that records the notes the importer creates
+function mockApp() {
+  const created: Record<string, string> = {};
+  const app = {
+    vault: {
+      getMarkdownFiles: () => [],
+      getAbstractFileByPath: () => null,
+      adapter: { exists: async () => true, mkdir: jest.fn() },
+      create: async (path: string, content: string) => {
+        created[path] = content;
+        return { path };
+      },
+    },
+    metadataCache: { getFileCache: () => null },
+  };
+  return { app: app as any, created };
+}
+
+function frontmatterOf(content: string): Record<string, any> {
+  return parse(content.match(/^---\n([\s\S]*?)\n---/)![1]);
+}
+
+describe('Default source note template', () => {
+  it('should write every contributor role that a source has', async () => {
+    const { app, created } = mockApp();
+    const importer = new SourceImporter(app, 'sources', DEFAULT_SETTINGS.sourceNoteTemplate);
+    const source = {
+      citekey: 'Kub68',
+      title: '2001: A Space Odyssey',
+      year: '1968',
+      author: ['Clarke, Arthur C.'],
+      director: ['Kubrick, Stanley'],
+      composer: ['Strauss, Richard', 'Ligeti, György'],
+      'container-author': ['{Metro-Goldwyn-Mayer}'],
+      'reviewed-author': ['King, Jr., Martin Luther'],
+    };
+
+    await importer.createSourceFile(source, 'film');
+    const frontmatter = frontmatterOf(Object.values(created)[0]);
+
+    expect(frontmatter.director).toEqual(['Kubrick, Stanley']);
+    expect(frontmatter.composer).toEqual(['Strauss, Richard', 'Ligeti, György']);
+    expect(frontmatter['container-author']).toEqual(['{Metro-Goldwyn-Mayer}']);
+    expect(parseNameList(frontmatter['reviewed-author'])).toEqual([
+      { family: 'King', suffix: 'Jr.', given: 'Martin Luther' },
+    ]);
+  });
+
+  it('should leave out roles the source does not have', async () => {
+    const { app, created } = mockApp();
+    const importer = new SourceImporter(app, 'sources', DEFAULT_SETTINGS.sourceNoteTemplate);
+
+    await importer.createSourceFile({ citekey: 'Smi20', title: 'A Paper', year: '2020', author: ['Smith, John'] }, 'paper');
+    const frontmatter = frontmatterOf(Object.values(created)[0]);
+
+    expect(frontmatter.author).toEqual(['Smith, John']);
+    NAME_ROLES.filter((role) => !['author', 'editor', 'translator'].includes(role)).forEach((role) => {
+      expect(frontmatter).not.toHaveProperty(role);
+    });
+  });
+});
+
+describe('Imported dates', () => {
+  it('should store dates in EDTF and drop impossible ones', async () => {
+    const { app, created } = mockApp();
+    const importer = new SourceImporter(app, 'sources', DEFAULT_SETTINGS.sourceNoteTemplate);
+
+    await importer.createSourceFile(
+      { citekey: 'Smi20', title: 'A Post', author: ['Smith, John'], date: '2020-05-01T10:30:00Z', accessed: '2024-02-30' },
+      'web'
+    );
+    const frontmatter = frontmatterOf(Object.values(created)[0]);
+
+    expect(frontmatter.date).toBe('2020-05-01');
+    expect(frontmatter.accessed).toBeNull();
+  });
+});
@@ -0,0 +1,108 @@
+// Test the source note template language: variables, conditionals, loops, comments and includes
+import { expandIncludes, renderTemplate, validateTemplate } from '../src/utils/templateEngine';
+import { DEFAULT_SETTINGS } from '../src/types/settings';
+
+const source = {
+  citekey: 'Cor09',
+  title: 'Introduction to Algorithms',
+  author: ['Cormen, Thomas H', 'Leiserson, Charles E'],
+  keywords: [],
+  doi: '',
+  isbn: '9780262033848',
+  year: '2009',
+  meta: { edition: '3rd' },
+};
+
+describe('Template Rendering', () => {
+  it('should render plain variables as before', () => {
+    expect(renderTemplate('{{ title }} ({{year}}), {{meta.edition}} ed.{{missing}}', source)).toBe(
+      'Introduction to Algorithms (2009), 3rd ed.'
+    );
+    expect(renderTemplate('{{author}}', source)).toBe('Cormen, Thomas H,Leiserson, Charles E');
+  });
+
+  it('should render conditionals with else', () => {
+    expect(renderTemplate('{{#if isbn}}ISBN {{isbn}}{{/if}}', source)).toBe('ISBN 9780262033848');
+    expect(renderTemplate('{{#if doi}}DOI {{doi}}{{else}}no DOI{{/if}}', source)).toBe('no DOI');
+    expect(renderTemplate('{{#unless keywords}}untagged{{/unless}}', source)).toBe('untagged');
+  });
+
+  it('should allow spaces around block keywords', () => {
+    expect(renderTemplate('{{# if isbn}}ISBN {{isbn}}{{/ if}}', source)).toBe('ISBN 9780262033848');
+    expect(renderTemplate('{{ #each author }}{{this}};{{ /each }}', source)).toBe('Cormen, Thomas H;Leiserson, Charles E;');
+  });
+
+  it('should remove lines that only hold block tags', () => {
+    const template = 'title: {{title}}\n{{#if doi}}\ndoi: {{doi}}\n{{/if}}\n  {{! isbn is always set }}\nisbn: {{isbn}}\n';
+    expect(renderTemplate(template, source)).toBe('title: Introduction to Algorithms\nisbn: 9780262033848\n');
+  });
+
+  it('should loop over lists', () => {
+    const template = '{{#each author}}{{#unless @first}}; {{/unless}}{{@number}}. {{this}}{{/each}}';
+    expect(renderTemplate(template, source)).toBe('1. Cormen, Thomas H; 2. Leiserson, Charles E');
+    expect(renderTemplate('{{#each keywords}}#{{this}} {{else}}none{{/each}}', source)).toBe('none');
+    expect(
+      renderTemplate('{{#each links}}[{{label}}]({{url}}) {{title}}{{/each}}', {
+        title: 'T',
+        links: [{ label: 'PDF', url: 'a.pdf' }],
+      })
+    ).toBe('[PDF](a.pdf) T');
+  });
+
+  it('should not expose prototype properties', () => {
+    expect(renderTemplate('{{constructor}}{{title.constructor.name}}{{__proto__}}', source)).toBe('');
+  });
+
+  it('should report malformed blocks', () => {
+    expect(() => renderTemplate('{{#if doi}}', source)).toThrow('Unclosed template block: {{#if doi}}');
+    expect(() => renderTemplate('{{#each author}}{{/if}}', source)).toThrow('{{/if}} closes {{#each author}}');
+    expect(() => renderTemplate('{{#if doi}}{{else}}{{else}}{{/if}}', source)).toThrow('Second {{else}} in {{#if doi}}');
+  });
+
+  it('should keep unknown blocks and filters as written', () => {
+    expect(renderTemplate('{{#with meta}}\n{{title}}\n{{/with}}', source)).toBe('{{#with meta}}\nIntroduction to Algorithms\n{{/with}}');
+    expect(renderTemplate('{{#tag}} {{else}} {{x|y}}', source)).toBe('{{#tag}} {{else}} {{x|y}}');
+    expect(renderTemplate('{{title | shout}}', source)).toBe('{{title | shout}}');
+  });
+
+  it('should check templates without rendering them', () => {
+    expect(() => validateTemplate('{{#if doi}}DOI {{doi | upper}}{{/if}}')).not.toThrow();
+    expect(() => validateTemplate('{{#if doi}}')).toThrow('Unclosed template block');
+    expect(() => validateTemplate('{{title | shout}} {{#tag}}')).not.toThrow();
+  });
+
+  it('should render the default template without empty labels', () => {
+    const note = renderTemplate(DEFAULT_SETTINGS.sourceNoteTemplate, source);
+    expect(note).not.toContain('DOI:');
+    expect(note).not.toContain('**Keywords:**');
+    expect(note).toContain('# Introduction to Algorithms');
+  });
+});
+
+describe('Template Includes', () => {
+  const templates: Record<string, string> = {
+    'Templates/Source.md': '---\n{{> Header}}\n---\n{{> Body}}',
+    'Templates/Header.md': 'title: {{title}}\n',
+    'Templates/Body.md': '{{#each author}}- {{this}}\n{{/each}}',
+    'Templates/Loop.md': '{{> Loop}}',
+  };
+  const load = async (name: string) => {
+    const path = `Templates/${name}.md`;
+    return templates[path] !== undefined ? { path, content: templates[path] } : null;
+  };
+
+  it('should inline included templates before rendering', async () => {
+    const template = await expandIncludes(templates['Templates/Source.md'], load, 'Templates/Source.md');
+    expect(template).toBe('---\ntitle: {{title}}\n---\n{{#each author}}- {{this}}\n{{/each}}');
+    expect(renderTemplate(template, source)).toBe(
+      '---\ntitle: Introduction to Algorithms\n---\n- Cormen, Thomas H\n- Leiserson, Charles E\n'
+    );
+  });
+
+  it('should reject missing and recursive includes', async () => {
+    await expect(expandIncludes('{{> Missing}}', load)).rejects.toThrow('Template include not found: Missing');
+    await expect(expandIncludes('{{> Loop}}', load, 'Templates/Source.md')).rejects.toThrow(
+      'Template includes itself: Templates/Loop.md'
+    );
+  });
+});
@@ -0,0 +1,101 @@
+// Test template filters, date formats and built-in computed variables
+import { computedTemplateVariables, renderTemplate } from '../src/utils/templateEngine';
+import { formatDatePattern } from '../src/utils/templateFilters';
+import { today } from '../src/utils/dates';
+
+const source = {
+  title: 'Deep Learning: A Survey',
+  author: ['LeCun, Yann', 'Bengio, Yoshua', 'Hinton, Geoffrey'],
+  abstract: 'Deep learning allows computational models that are composed of multiple processing layers to learn representations.',
+  date: '2015-05-28',
+  year: '2015',
+  doi: 'https://doi.org/10.1038/nature14539',
+  arxiv: '2301.12345',
+  keywords: [],
+};
+
+describe('Template Filters', () => {
+  it('should change case and trim', () => {
+    expect(renderTemplate('{{title | lower}} / {{title|upper}}', source)).toBe(
+      'deep learning: a survey / DEEP LEARNING: A SURVEY'
+    );
+    expect(renderTemplate('{{name | trim | capitalize}}', { name: '  nature ' })).toBe('Nature');
+  });
+
+  it('should join, count and pick list entries', () => {
+    expect(renderTemplate('{{author | join:"; "}}', source)).toBe('LeCun, Yann; Bengio, Yoshua; Hinton, Geoffrey');
+    expect(renderTemplate("{{author | names | join:' | '}}", source)).toBe('Yann LeCun | Yoshua Bengio | Geoffrey Hinton');
+    expect(renderTemplate('{{author | family}}', source)).toBe('LeCun, Bengio, Hinton');
+    expect(renderTemplate('{{author | first | names}} of {{author | count}}', source)).toBe('Yann LeCun of 3');
+    expect(renderTemplate('{{keywords | count}}', source)).toBe('0');
+  });
+
+  it('should truncate long text', () => {
+    expect(renderTemplate('{{abstract | truncate:20}}', source)).toBe('Deep learning allows…');
+    expect(renderTemplate('{{year | truncate:20}}', source)).toBe('2015');
+  });
+
+  it('should format dates', () => {
+    expect(renderTemplate('{{date | date:DD.MM.YYYY}}', source)).toBe('28.05.2015');
+    expect(renderTemplate('{{date | date:"YY/M/D"}}', source)).toBe('15/5/28');
+    expect(formatDatePattern('2023', 'YYYY-MM-DD')).toBe('2023');
+    expect(formatDatePattern('2023-05', 'DD.MM.YYYY')).toBe('05.2023');
+    expect(formatDatePattern('n.d.', 'YYYY')).toBe('n.d.');
+  });
+
+  it('should read {{date:FORMAT}} as the import date, as in Obsidian', () => {
+    expect(renderTemplate('{{date:DD.MM.YYYY}}', { ...source, importDate: '2024-03-01' })).toBe('01.03.2024');
+    // Only "date" has the shorthand; other names are looked up as written
+    expect(renderTemplate('{{year:YYYY}}', source)).toBe('');
+  });
+
+  it('should link names and identifiers', () => {
+    expect(renderTemplate('{{author | names | wikilinks}}', source)).toBe(
+      '[[Yann LeCun]], [[Yoshua Bengio]], [[Geoffrey Hinton]]'
+    );
+    expect(renderTemplate('{{doi | url}}', source)).toBe('https://doi.org/10.1038/nature14539');
+    expect(renderTemplate('{{doi | url}}', { doi: '10.1038/nature14539' })).toBe('https://doi.org/10.1038/nature14539');
+    expect(renderTemplate('{{arxiv | url}}', source)).toBe('https://arxiv.org/abs/2301.12345');
+  });
+
+  it('should fall back to defaults and work in blocks', () => {
+    expect(renderTemplate('{{publisher | default:"n/a"}}', source)).toBe('n/a');
+    expect(renderTemplate('{{#each author | family}}{{this}} {{/each}}', source)).toBe('LeCun Bengio Hinton ');
+  });
+
+  it('should keep tags with unknown filters as written', () => {
+    expect(renderTemplate('{{title | shout}}', source)).toBe('{{title | shout}}');
+    expect(() => renderTemplate('{{#if title | shout}}{{/if}}', source)).toThrow('Unknown template filter');
+  });
+});
+
+describe('Computed Template Variables', () => {
+  it('should derive author and title variables', () => {
+    const variables = computedTemplateVariables(source);
+    expect(variables).toEqual(
+      expect.objectContaining({
+        firstAuthorLastName: 'LeCun',
+        authorCount: 3,
+        etAl: 'LeCun et al.',
+        shortTitle: 'Deep Learning',
+      })
+    );
+    expect(computedTemplateVariables({ author: ['Smith, John', 'Doe, Jane'] }).etAl).toBe('Smith & Doe');
+    expect(computedTemplateVariables({ title: 'Attention Is All You Need' }).shortTitle).toBe('Attention Is All You Need');
+  });
+
+  it('should keep abbreviations with periods in short titles', () => {
+    const shortTitle = (title: string) => computedTemplateVariables({ title }).shortTitle;
+    expect(shortTitle('U.S. Policy in 2020. A review')).toBe('U.S. Policy in 2020. A review');
+    expect(shortTitle('Dr. Strangelove: Or How I Learned to Stop Worrying')).toBe('Dr. Strangelove');
+    expect(shortTitle('Deep Learning - A Survey')).toBe('Deep Learning');
+    expect(shortTitle('Self-Attention')).toBe('Self-Attention');
+  });
+
+  it('should date imports', () => {
+    const variables = computedTemplateVariables({});
+    expect(variables.importDate).toBe(today());
+    expect(variables.added).toBe(today());
+    expect(variables.firstAuthorLastName).toBe('');
+  });
+});
@@ -0,0 +1,126 @@
+// Test the library lint rules: required fields per type, identifiers, years and aliases
+import { validateLibrary, validateSource } from '../src/utils/validation';
+
+const validArticle = {
+  citekey: 'Pol20',
+  aliases: ['@Pol20'],
+  bibtype: 'article-journal',
+  title: 'Safety and Efficacy of the BNT162b2 mRNA Covid-19 Vaccine',
+  author: ['Polack, Fernando P'],
+  journal: 'The New England journal of medicine',
+  volume: '383',
+  year: 2020,
+  date: '2020-12-31',
+  doi: '10.1056/NEJMoa2034577',
+  url: 'https://www.nejm.org/doi/full/10.1056/NEJMoa2034577',
+};
+
+const messages = (frontmatter: Record<string, any>) => validateSource(frontmatter, 2025).map(({ message }) => message);
+
+describe('Source Validation', () => {
+  it('should accept a complete article', () => {
+    expect(validateSource(validArticle, 2025)).toEqual([]);
+  });
+
+  it('should require fields per bibtype', () => {
+    expect(messages({ ...validArticle, volume: '', journal: undefined })).toEqual([
+      'Missing journal (required for article-journal)',
+      'Missing volume (required for article-journal)',
+    ]);
+    expect(messages({ citekey: 'Knu97', bibtype: 'book', title: 'TAOCP', editor: ['Knuth, Donald'], year: 1997 })).toEqual(
+      ['Missing publisher (required for book)']
+    );
+    expect(messages({ citekey: 'Web', bibtype: 'webpage', title: 'A page' })).toEqual([
+      'Missing url (required for webpage)',
+    ]);
+  });
+
+  it('should only require a title for other types', () => {
+    expect(messages({ citekey: 'X', bibtype: 'software', title: 'Tool' })).toEqual([]);
+    expect(validateSource({ citekey: 'X', bibtype: 'misc' }, 2025)[0]).toEqual(
+      expect.objectContaining({ severity: 'error', field: 'title' })
+    );
+  });
+
+  it('should report missing citekeys and bibtypes', () => {
+    expect(messages({ title: 'Untyped' })).toEqual([
+      'No citekey, the source cannot be cited',
+      'No bibtype, the source is exported as misc',
+    ]);
+  });
+
+  it('should check DOI syntax and offer to strip resolvers', () => {
+    expect(messages({ ...validArticle, doi: '10.1056' })).toEqual(['Not a valid DOI: 10.1056']);
+
+    const [issue] = validateSource({ ...validArticle, doi: 'https://doi.org/10.1056/NEJMoa2034577' }, 2025);
+    const fixed: Record<string, any> = { doi: 'https://doi.org/10.1056/NEJMoa2034577' };
+    issue.fix?.apply(fixed);
+    expect(fixed.doi).toBe('10.1056/NEJMoa2034577');
+  });
+
+  it('should check ISBN check digits', () => {
+    const book = { citekey: 'Cor09', bibtype: 'book', title: 'CLRS', author: ['Cormen'], publisher: 'MIT Press', year: 2009 };
+    expect(messages({ ...book, isbn: '978-0-262-03384-8' })).toEqual([]);
+    expect(messages({ ...book, isbn: '0-262-03384-4' })).toEqual([]);
+    expect(messages({ ...book, isbn: '978-0-262-03384-9' })).toEqual(['Wrong ISBN check digit: 978-0-262-03384-9']);
+    expect(messages({ ...book, isbn: '12345' })).toEqual(['Not an ISBN-10 or ISBN-13: 12345']);
+  });
+
+  it('should check URLs and fix missing schemes', () => {
+    expect(messages({ ...validArticle, url: 'ftp://example.org/file' })).toEqual(['Not a web URL: ftp://example.org/file']);
+
+    const [issue] = validateSource({ ...validArticle, url: 'www.example.org/post' }, 2025);
+    expect(issue.fix?.label).toBe('Add https://');
+    const fixed: Record<string, any> = {};
+    issue.fix?.apply(fixed);
+    expect(fixed.url).toBe('https://www.example.org/post');
+
+    expect(validateSource({ ...validArticle, url: 'not a url' }, 2025)[0].fix).toBeUndefined();
+  });
+
+  it('should check that years are plausible and match the date', () => {
+    expect(messages({ ...validArticle, year: 2027, date: undefined })).toEqual(['Implausible year: 2027']);
+    expect(messages({ ...validArticle, year: 2026, date: undefined })).toEqual([]);
+    expect(messages({ ...validArticle, year: 202, date: undefined })).toEqual(['Implausible year: 202']);
+    expect(messages({ ...validArticle, year: '2020a', date: undefined })).toEqual(['Implausible year: 2020a']);
+
+    const [mismatch] = validateSource({ ...validArticle, year: 2021 }, 2025);
+    expect(mismatch.message).toBe('Year 2021 does not match date 2020-12-31');
+    const fixed: Record<string, any> = {};
+    mismatch.fix?.apply(fixed);
+    expect(fixed.year).toBe(2020);
+  });
+
+  it('should offer the year from the date when it is missing', () => {
+    const [issue] = validateSource({ ...validArticle, year: undefined }, 2025);
+    expect(issue.fix?.label).toBe('Set year to 2020');
+  });
+
+  it('should remove repeated aliases', () => {
+    const [issue] = validateSource({ ...validArticle, aliases: ['@Pol20', 'BNT162b2 trial', '@Pol20'] }, 2025);
+    const fixed: Record<string, any> = {};
+    issue.fix?.apply(fixed);
+    expect(fixed.aliases).toEqual(['@Pol20', 'BNT162b2 trial']);
+  });
+});
+
+describe('Library Validation', () => {
+  it('should report citekeys and aliases used by more than one note', () => {
+    const results = validateLibrary(
+      [
+        { path: 'sources/b.md', frontmatter: { ...validArticle, citekey: 'Pol20b', aliases: ['@Pol20b', 'BNT'] } },
+        { path: 'sources/a.md', frontmatter: { ...validArticle, aliases: ['@Pol20', 'BNT'] } },
+        { path: 'sources/c.md', frontmatter: { ...validArticle, citekey: 'Pol20', aliases: [] } },
+        { path: 'sources/ok.md', frontmatter: { ...validArticle, citekey: 'Unique', aliases: ['@Unique'] } },
+      ],
+      2025
+    );
+
+    expect(results.map(({ source }) => source.path)).toEqual(['sources/a.md', 'sources/b.md', 'sources/c.md']);
+    expect(results[0].issues.map(({ message }) => message)).toEqual([
+      'Citekey @Pol20 is also used by sources/c.md',
+      'Alias BNT is also used by sources/b.md',
+    ]);
+    expect(results[2].issues.map(({ message }) => message)).toEqual(['Citekey @Pol20 is also used by sources/a.md']);
+  });
+});